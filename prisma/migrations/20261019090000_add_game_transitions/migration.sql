@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "game_transitions" (
+    "id" TEXT NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "from_status" TEXT NOT NULL,
+    "to_status" TEXT NOT NULL,
+    "due_at" TIMESTAMP(3) NOT NULL,
+    "processed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "game_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "game_transitions_game_id_to_status_key" ON "game_transitions"("game_id", "to_status");
+
+-- CreateIndex
+CREATE INDEX "game_transitions_processed_at_due_at_idx" ON "game_transitions"("processed_at", "due_at");
+
+-- AddForeignKey
+ALTER TABLE "game_transitions" ADD CONSTRAINT "game_transitions_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN "scored_at" TIMESTAMP(3);
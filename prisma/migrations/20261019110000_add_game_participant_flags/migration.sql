@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "game_participants" ADD COLUMN "is_flagged" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "flag_reason" TEXT,
+ADD COLUMN "flagged_at" TIMESTAMP(3),
+ADD COLUMN "flag_reviewed_at" TIMESTAMP(3);
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "game_participants" ADD COLUMN "tap_histogram" JSONB;
+
+-- CreateTable
+CREATE TABLE "game_tap_batches" (
+    "id" TEXT NOT NULL,
+    "game_participant_id" TEXT NOT NULL,
+    "seq" INTEGER NOT NULL,
+    "tap_count" INTEGER NOT NULL,
+    "events" JSONB NOT NULL,
+    "received_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "game_tap_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "game_tap_batches_game_participant_id_seq_key" ON "game_tap_batches"("game_participant_id", "seq");
+
+-- AddForeignKey
+ALTER TABLE "game_tap_batches" ADD CONSTRAINT "game_tap_batches_game_participant_id_fkey" FOREIGN KEY ("game_participant_id") REFERENCES "game_participants"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- Publish game changes to Supabase Realtime, so lobbies and live tap counts are pushed to clients.
+-- The publication only exists on Supabase (or a local Supabase stack), so skip it on plain Postgres.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'games'
+        ) THEN
+            ALTER PUBLICATION supabase_realtime ADD TABLE "games";
+        END IF;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'game_participants'
+        ) THEN
+            ALTER PUBLICATION supabase_realtime ADD TABLE "game_participants";
+        END IF;
+    END IF;
+END $$;
+
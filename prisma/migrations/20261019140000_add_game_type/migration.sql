@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN "type" TEXT NOT NULL DEFAULT 'row_harder';
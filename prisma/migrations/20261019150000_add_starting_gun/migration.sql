@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "game_participants" ADD COLUMN "reaction_ms" INTEGER,
+ADD COLUMN "false_start" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "game_signals" (
+    "game_id" TEXT NOT NULL,
+    "signal_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "game_signals_pkey" PRIMARY KEY ("game_id")
+);
+
+-- AddForeignKey
+ALTER TABLE "game_signals" ADD CONSTRAINT "game_signals_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
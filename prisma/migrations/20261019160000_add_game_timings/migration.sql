@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN "duration_ms" INTEGER NOT NULL DEFAULT 10000,
+ADD COLUMN "countdown_ms" INTEGER NOT NULL DEFAULT 3000;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN "host_participant_id" TEXT,
+ADD COLUMN "is_locked" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "max_players" INTEGER,
+ADD COLUMN "require_ready" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "kicked_participant_ids" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "game_participants" ADD COLUMN "is_ready" BOOLEAN NOT NULL DEFAULT false;
+
+-- AddForeignKey
+ALTER TABLE "games" ADD CONSTRAINT "games_host_participant_id_fkey" FOREIGN KEY ("host_participant_id") REFERENCES "participants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN "is_private" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "join_code" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "games_join_code_key" ON "games"("join_code");
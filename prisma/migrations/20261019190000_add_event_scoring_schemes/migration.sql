@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "scoring_scheme" JSONB;
+
+-- AlterTable
+ALTER TABLE "scores" ADD COLUMN "method" TEXT NOT NULL DEFAULT 'rank';
+
+-- Direct points entries were stored with a placeholder rank of 0
+UPDATE "scores" SET "method" = 'points' WHERE "rank" = 0;
+
+-- Mini-game scores count games won rather than coming from a rank
+UPDATE "scores" SET "method" = 'game'
+FROM "events"
+WHERE "scores"."event_id" = "events"."id"
+AND "events"."name" IN ('Row Harder!', 'Starting Gun');
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "ranking_policy" TEXT NOT NULL DEFAULT 'standard';
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "score_audit_entries" (
+    "id" TEXT NOT NULL,
+    "participant_id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "actor_participant_id" TEXT,
+    "source" TEXT NOT NULL,
+    "reason" TEXT,
+    "previous_rank" INTEGER,
+    "previous_points" INTEGER,
+    "previous_method" TEXT,
+    "new_rank" INTEGER,
+    "new_points" INTEGER,
+    "new_method" TEXT,
+    "revert_of_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "score_audit_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "score_audit_entries_event_id_created_at_idx" ON "score_audit_entries"("event_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "score_audit_entries_created_at_idx" ON "score_audit_entries"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "score_audit_entries" ADD CONSTRAINT "score_audit_entries_participant_id_fkey" FOREIGN KEY ("participant_id") REFERENCES "participants"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "score_audit_entries" ADD CONSTRAINT "score_audit_entries_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "score_audit_entries" ADD CONSTRAINT "score_audit_entries_actor_participant_id_fkey" FOREIGN KEY ("actor_participant_id") REFERENCES "participants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "score_audit_entries" ADD CONSTRAINT "score_audit_entries_revert_of_id_fkey" FOREIGN KEY ("revert_of_id") REFERENCES "score_audit_entries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "score_disputes" (
+    "id" TEXT NOT NULL,
+    "score_id" TEXT NOT NULL,
+    "participant_id" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "disputed_rank" INTEGER NOT NULL,
+    "disputed_points" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "admin_reply" TEXT,
+    "resolved_by_id" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "score_disputes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "score_disputes_status_created_at_idx" ON "score_disputes"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "score_disputes_participant_id_idx" ON "score_disputes"("participant_id");
+
+-- AddForeignKey
+ALTER TABLE "score_disputes" ADD CONSTRAINT "score_disputes_score_id_fkey" FOREIGN KEY ("score_id") REFERENCES "scores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "score_disputes" ADD CONSTRAINT "score_disputes_participant_id_fkey" FOREIGN KEY ("participant_id") REFERENCES "participants"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "score_disputes" ADD CONSTRAINT "score_disputes_resolved_by_id_fkey" FOREIGN KEY ("resolved_by_id") REFERENCES "participants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
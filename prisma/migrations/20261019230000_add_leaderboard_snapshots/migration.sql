@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "leaderboard_snapshots" (
+    "id" TEXT NOT NULL,
+    "event_id" TEXT,
+    "is_checkpoint" BOOLEAN NOT NULL DEFAULT false,
+    "label" TEXT,
+    "created_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "leaderboard_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "leaderboard_snapshot_entries" (
+    "snapshot_id" TEXT NOT NULL,
+    "participant_id" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "total_points" INTEGER NOT NULL,
+
+    CONSTRAINT "leaderboard_snapshot_entries_pkey" PRIMARY KEY ("snapshot_id","participant_id")
+);
+
+-- CreateIndex
+CREATE INDEX "leaderboard_snapshots_created_at_idx" ON "leaderboard_snapshots"("created_at");
+
+-- CreateIndex
+CREATE INDEX "leaderboard_snapshots_is_checkpoint_created_at_idx" ON "leaderboard_snapshots"("is_checkpoint", "created_at");
+
+-- CreateIndex
+CREATE INDEX "leaderboard_snapshot_entries_participant_id_idx" ON "leaderboard_snapshot_entries"("participant_id");
+
+-- AddForeignKey
+ALTER TABLE "leaderboard_snapshots" ADD CONSTRAINT "leaderboard_snapshots_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "leaderboard_snapshots" ADD CONSTRAINT "leaderboard_snapshots_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "participants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "leaderboard_snapshot_entries" ADD CONSTRAINT "leaderboard_snapshot_entries_snapshot_id_fkey" FOREIGN KEY ("snapshot_id") REFERENCES "leaderboard_snapshots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "leaderboard_snapshot_entries" ADD CONSTRAINT "leaderboard_snapshot_entries_participant_id_fkey" FOREIGN KEY ("participant_id") REFERENCES "participants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "team_best_count" INTEGER,
+ADD COLUMN     "team_scoring" TEXT NOT NULL DEFAULT 'sum';
+
+-- AlterTable
+ALTER TABLE "participants" ADD COLUMN     "team_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "teams" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "teams_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "team_scores" (
+    "id" TEXT NOT NULL,
+    "team_id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "points" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "team_scores_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "teams_name_key" ON "teams"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "team_scores_team_id_event_id_key" ON "team_scores"("team_id", "event_id");
+
+-- AddForeignKey
+ALTER TABLE "participants" ADD CONSTRAINT "participants_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "team_scores" ADD CONSTRAINT "team_scores_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "team_scores" ADD CONSTRAINT "team_scores_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "ends_at" TIMESTAMP(3),
+ADD COLUMN     "location" TEXT,
+ADD COLUMN     "starts_at" TIMESTAMP(3),
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'upcoming';
@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "event_rounds" (
+    "id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "is_final" BOOLEAN NOT NULL DEFAULT false,
+    "advance_count" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_rounds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_heats" (
+    "id" TEXT NOT NULL,
+    "round_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+
+    CONSTRAINT "event_heats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "heat_entries" (
+    "id" TEXT NOT NULL,
+    "heat_id" TEXT NOT NULL,
+    "participant_id" TEXT NOT NULL,
+    "lane" INTEGER NOT NULL,
+    "place" INTEGER,
+    "advanced" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "heat_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_rounds_event_id_order_key" ON "event_rounds"("event_id", "order");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_heats_round_id_order_key" ON "event_heats"("round_id", "order");
+
+-- CreateIndex
+CREATE INDEX "heat_entries_participant_id_idx" ON "heat_entries"("participant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "heat_entries_heat_id_participant_id_key" ON "heat_entries"("heat_id", "participant_id");
+
+-- AddForeignKey
+ALTER TABLE "event_rounds" ADD CONSTRAINT "event_rounds_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_heats" ADD CONSTRAINT "event_heats_round_id_fkey" FOREIGN KEY ("round_id") REFERENCES "event_rounds"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "heat_entries" ADD CONSTRAINT "heat_entries_heat_id_fkey" FOREIGN KEY ("heat_id") REFERENCES "event_heats"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "heat_entries" ADD CONSTRAINT "heat_entries_participant_id_fkey" FOREIGN KEY ("participant_id") REFERENCES "participants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
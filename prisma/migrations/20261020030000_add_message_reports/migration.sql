@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "hidden_at" TIMESTAMP(3),
+ADD COLUMN     "hidden_by_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "participants" ADD COLUMN     "muted_until" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "message_reports" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "reporter_id" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "resolved_by_id" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_reports_status_created_at_idx" ON "message_reports"("status", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_reports_message_id_reporter_id_key" ON "message_reports"("message_id", "reporter_id");
+
+-- AddForeignKey
+ALTER TABLE "messages" ADD CONSTRAINT "messages_hidden_by_id_fkey" FOREIGN KEY ("hidden_by_id") REFERENCES "participants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_reports" ADD CONSTRAINT "message_reports_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_reports" ADD CONSTRAINT "message_reports_reporter_id_fkey" FOREIGN KEY ("reporter_id") REFERENCES "participants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_reports" ADD CONSTRAINT "message_reports_resolved_by_id_fkey" FOREIGN KEY ("resolved_by_id") REFERENCES "participants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "deleted_at" TIMESTAMP(3),
+ADD COLUMN     "deleted_by_id" TEXT,
+ADD COLUMN     "edited_at" TIMESTAMP(3);
+
+-- AddForeignKey
+ALTER TABLE "messages" ADD CONSTRAINT "messages_deleted_by_id_fkey" FOREIGN KEY ("deleted_by_id") REFERENCES "participants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
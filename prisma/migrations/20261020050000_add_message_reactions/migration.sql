@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "message_reactions" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "participant_id" TEXT NOT NULL,
+    "emoji" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_reactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_reactions_message_id_participant_id_emoji_key" ON "message_reactions"("message_id", "participant_id", "emoji");
+
+-- AddForeignKey
+ALTER TABLE "message_reactions" ADD CONSTRAINT "message_reactions_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_reactions" ADD CONSTRAINT "message_reactions_participant_id_fkey" FOREIGN KEY ("participant_id") REFERENCES "participants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Removed reactions need their message_id in the realtime payload, so log whole rows
+ALTER TABLE "message_reactions" REPLICA IDENTITY FULL;
+
+-- Publish reactions to Supabase Realtime so counts update live in the chat.
+-- The publication only exists on Supabase (or a local Supabase stack), so skip it on plain Postgres.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'message_reactions'
+        ) THEN
+            ALTER PUBLICATION supabase_realtime ADD TABLE "message_reactions";
+        END IF;
+    END IF;
+END $$;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "reply_to_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "message_mentions" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "participant_id" TEXT NOT NULL,
+    "read_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_mentions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_mentions_participant_id_read_at_idx" ON "message_mentions"("participant_id", "read_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_mentions_message_id_participant_id_key" ON "message_mentions"("message_id", "participant_id");
+
+-- AddForeignKey
+ALTER TABLE "messages" ADD CONSTRAINT "messages_reply_to_id_fkey" FOREIGN KEY ("reply_to_id") REFERENCES "messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_mentions" ADD CONSTRAINT "message_mentions_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_mentions" ADD CONSTRAINT "message_mentions_participant_id_fkey" FOREIGN KEY ("participant_id") REFERENCES "participants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
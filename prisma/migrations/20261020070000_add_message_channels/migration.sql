@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "channel" TEXT NOT NULL DEFAULT 'global';
+
+-- CreateIndex
+CREATE INDEX "messages_channel_created_at_idx" ON "messages"("channel", "created_at");
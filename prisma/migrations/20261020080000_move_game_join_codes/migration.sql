@@ -0,0 +1,24 @@
+-- CreateTable
+-- Deliberately left out of the supabase_realtime publication, so codes aren't broadcast
+CREATE TABLE "game_join_codes" (
+    "game_id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+
+    CONSTRAINT "game_join_codes_pkey" PRIMARY KEY ("game_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "game_join_codes_code_key" ON "game_join_codes"("code");
+
+-- AddForeignKey
+ALTER TABLE "game_join_codes" ADD CONSTRAINT "game_join_codes_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move existing codes across
+INSERT INTO "game_join_codes" ("game_id", "code")
+SELECT "id", "join_code" FROM "games" WHERE "join_code" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "games_join_code_key";
+
+-- AlterTable
+ALTER TABLE "games" DROP COLUMN "join_code";
@@ -0,0 +1,8 @@
+-- Mini-game scores count games won rather than coming from a rank. Match them by the
+-- event each game type scores into (eventName in src/lib/games.ts), as finalizeGame does,
+-- in case any were left as rank-based scores.
+UPDATE "scores" SET "method" = 'game'
+FROM "events"
+WHERE "scores"."event_id" = "events"."id"
+AND "events"."name" IN ('Row Harder!', 'Starting Gun')
+AND "scores"."method" <> 'game';
@@ -0,0 +1,13 @@
+-- Publish event changes to Supabase Realtime, so the agenda's live event statuses are pushed to clients.
+-- The publication only exists on Supabase (or a local Supabase stack), so skip it on plain Postgres.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'events'
+        ) THEN
+            ALTER PUBLICATION supabase_realtime ADD TABLE "events";
+        END IF;
+    END IF;
+END $$;
@@ -0,0 +1,20 @@
+-- Realtime sends whole message rows, and a game's lobby chat is only for its players.
+-- With row level security on, Realtime only delivers a row to subscribers allowed to select
+-- it. The app's own connection owns the table, so its queries aren't affected.
+-- auth.uid() only exists on Supabase (or a local Supabase stack), so skip it on plain Postgres.
+DO $$
+BEGIN
+    IF to_regprocedure('auth.uid()') IS NOT NULL THEN
+        ALTER TABLE "messages" ENABLE ROW LEVEL SECURITY;
+
+        CREATE POLICY "messages_select_by_channel" ON "messages" FOR SELECT USING (
+            "channel" NOT LIKE 'game:%'
+            OR EXISTS (
+                SELECT 1 FROM "game_participants" gp
+                JOIN "participants" p ON p."id" = gp."participant_id"
+                WHERE p."user_id" = auth.uid()::text
+                AND "messages"."channel" = 'game:' || gp."game_id"
+            )
+        );
+    END IF;
+END $$;
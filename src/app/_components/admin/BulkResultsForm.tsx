@@ -0,0 +1,315 @@
+"use client";
+
+import { useState } from "react";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+type ResultsPreview = RouterOutputs["score"]["previewEventResults"];
+
+/**
+ * Form for admins to enter a whole event's finishing order at once
+ * Players given the same place are tied. The point changes are previewed before saving.
+ */
+export const BulkResultsForm = () => {
+  const [eventId, setEventId] = useState("");
+  // Place entered for each participant, blank if they didn't take part
+  const [places, setPlaces] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<ResultsPreview | null>(null);
+  const [reason, setReason] = useState("");
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [message, setMessage] = useState<{
+    text: string;
+    type: "success" | "error";
+  } | null>(null);
+  const utils = api.useUtils();
+
+  const {
+    data: events,
+    isLoading: eventsLoading,
+    error: eventsError,
+  } = api.event.getAll.useQuery();
+
+  const {
+    data: participants,
+    isLoading: participantsLoading,
+    error: participantsError,
+  } = api.participant.getAll.useQuery();
+
+  const submitResultsMutation = api.score.submitEventResults.useMutation({
+    onSuccess: (data) => {
+      setMessage({ text: data.message, type: "success" });
+      setPreview(null);
+      setPlaces({});
+      setReason("");
+      void utils.score.getLeaderboardData.invalidate();
+    },
+    onError: (error) => {
+      setMessage({ text: error.message, type: "error" });
+    },
+  });
+
+  /**
+   * Group participants by the place entered for them, best place first
+   */
+  const buildFinishingOrder = () => {
+    const groups = new Map<number, string[]>();
+
+    for (const [participantId, place] of Object.entries(places)) {
+      const placeNumber = parseInt(place, 10);
+      if (Number.isNaN(placeNumber) || placeNumber < 1) continue;
+
+      groups.set(placeNumber, [
+        ...(groups.get(placeNumber) ?? []),
+        participantId,
+      ]);
+    }
+
+    return [...groups.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, participantIds]) => participantIds);
+  };
+
+  const handlePlaceChange = (participantId: string, place: string) => {
+    setPlaces((current) => ({ ...current, [participantId]: place }));
+    setPreview(null); // The preview no longer matches what's entered
+  };
+
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+
+    const finishingOrder = buildFinishingOrder();
+    if (!eventId || finishingOrder.length === 0) {
+      setMessage({
+        text: "Please select an event and enter at least one place",
+        type: "error",
+      });
+      return;
+    }
+
+    setIsPreviewing(true);
+    try {
+      setPreview(
+        await utils.score.previewEventResults.fetch({
+          eventId,
+          finishingOrder,
+        }),
+      );
+    } catch (error) {
+      setMessage({
+        text:
+          error instanceof Error ? error.message : "Failed to preview results",
+        type: "error",
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    setMessage(null);
+    submitResultsMutation.mutate({
+      eventId,
+      finishingOrder: buildFinishingOrder(),
+      reason: reason || undefined,
+    });
+  };
+
+  if (eventsLoading || participantsLoading) {
+    return (
+      <div className="rounded-lg bg-white/10 p-6 shadow-md backdrop-blur-sm">
+        <h2 className="mb-4 text-2xl font-bold text-white">Enter Results</h2>
+        <p className="text-gray-300">Loading...</p>
+      </div>
+    );
+  }
+
+  if (eventsError || participantsError) {
+    return (
+      <div className="rounded-lg bg-white/10 p-6 shadow-md backdrop-blur-sm">
+        <h2 className="mb-4 text-2xl font-bold text-white">Enter Results</h2>
+        <p className="text-red-400">
+          {eventsError
+            ? "Failed to load events"
+            : "Failed to load participants"}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg bg-white/10 p-6 shadow-md backdrop-blur-sm">
+      <h2 className="mb-4 text-2xl font-bold text-white">Enter Results</h2>
+
+      <form onSubmit={handlePreview} className="space-y-4">
+        {/* Event Selection */}
+        <div>
+          <label
+            htmlFor="bulk-results-event"
+            className="mb-1 block text-sm font-medium text-gray-200"
+          >
+            Event
+          </label>
+          <select
+            id="bulk-results-event"
+            value={eventId}
+            onChange={(e) => {
+              setEventId(e.target.value);
+              setPreview(null);
+            }}
+            className="w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+            required
+          >
+            <option value="" disabled>
+              Select an event
+            </option>
+            {events?.map((event) => (
+              <option key={event.id} value={event.id}>
+                {event.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Finishing Places */}
+        <div>
+          <p className="mb-1 text-sm font-medium text-gray-200">
+            Finishing places
+          </p>
+          <p className="mb-2 text-xs text-gray-400">
+            Give tied participants the same place. Leave blank for anyone who
+            didn&apos;t compete; any score they already have is removed.
+          </p>
+          <div className="max-h-64 space-y-2 overflow-y-auto">
+            {participants?.map((participant) => (
+              <label
+                key={participant.id}
+                className="flex items-center justify-between gap-3 text-sm text-gray-200"
+              >
+                <span className="truncate">
+                  {participant.name ?? "Anonymous"}
+                </span>
+                <input
+                  type="number"
+                  min="1"
+                  value={places[participant.id] ?? ""}
+                  onChange={(e) =>
+                    handlePlaceChange(participant.id, e.target.value)
+                  }
+                  className="w-20 rounded-md bg-white/20 px-3 py-1 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Reason */}
+        <div>
+          <label
+            htmlFor="bulk-results-reason"
+            className="mb-1 block text-sm font-medium text-gray-200"
+          >
+            Reason (Optional)
+          </label>
+          <input
+            id="bulk-results-reason"
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Corrected photo finish"
+            className="w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={isPreviewing}
+          className={`w-full rounded-md px-4 py-2 font-medium transition-colors ${
+            isPreviewing
+              ? "cursor-not-allowed bg-purple-400"
+              : "bg-purple-600 hover:bg-purple-700"
+          }`}
+        >
+          {isPreviewing ? "Working out points..." : "Preview Points"}
+        </button>
+      </form>
+
+      {/* Preview */}
+      {preview && (
+        <div className="mt-4 rounded-md border border-white/10 bg-white/5 p-4">
+          <h3 className="mb-2 font-semibold text-white">
+            {preview.event.name}
+          </h3>
+          <table className="w-full text-sm text-gray-200">
+            <thead>
+              <tr className="text-left text-xs text-gray-400 uppercase">
+                <th className="pb-1">Rank</th>
+                <th className="pb-1">Participant</th>
+                <th className="pb-1 text-right">Points</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.results.map((result) => (
+                <tr key={result.participantId}>
+                  <td className="py-1">{result.rank}</td>
+                  <td className="py-1">{result.name ?? "Anonymous"}</td>
+                  <td className="py-1 text-right">
+                    {result.previousPoints !== null &&
+                      result.previousPoints !== result.points && (
+                        <span className="text-gray-400 line-through">
+                          {result.previousPoints}
+                        </span>
+                      )}{" "}
+                    {result.points}
+                    {result.pointsChange !== 0 && (
+                      <span
+                        className={`ml-1 text-xs ${
+                          result.pointsChange > 0
+                            ? "text-green-400"
+                            : "text-red-400"
+                        }`}
+                      >
+                        ({result.pointsChange > 0 ? "+" : ""}
+                        {result.pointsChange})
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {/* Scores a full set of results replaces */}
+              {preview.removed.map((score) => (
+                <tr key={score.participantId} className="text-gray-400">
+                  <td className="py-1">-</td>
+                  <td className="py-1">{score.name ?? "Anonymous"}</td>
+                  <td className="py-1 text-right">
+                    <span className="line-through">{score.previousPoints}</span>{" "}
+                    <span className="ml-1 text-xs text-red-400">
+                      (score removed)
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            onClick={handleSubmit}
+            disabled={submitResultsMutation.isPending}
+            className="mt-4 w-full rounded-md bg-green-600 px-4 py-2 font-medium text-white transition-colors hover:bg-green-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {submitResultsMutation.isPending ? "Saving..." : "Save Results"}
+          </button>
+        </div>
+      )}
+
+      {/* Success/Error Message */}
+      {message && (
+        <div
+          className={`mt-4 rounded p-3 ${
+            message.type === "success" ? "bg-green-500/30" : "bg-red-500/30"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+};
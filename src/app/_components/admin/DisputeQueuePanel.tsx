@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+type Dispute = RouterOutputs["dispute"]["getQueue"][number];
+
+/**
+ * Form for resolving a single dispute: correct the score and accept, or reply and reject
+ */
+const DisputeResolver = ({
+  dispute,
+  onResolved,
+  onError,
+}: {
+  dispute: Dispute;
+  onResolved: (message: string) => void;
+  onError: (message: string) => void;
+}) => {
+  const [scoreType, setScoreType] = useState<"rank" | "points">(
+    dispute.score.method === "rank" ? "rank" : "points",
+  );
+  const [correction, setCorrection] = useState("");
+  const [reply, setReply] = useState("");
+  const utils = api.useUtils();
+
+  const onSuccess = (data: { message: string }) => {
+    onResolved(data.message);
+    void utils.dispute.getQueue.invalidate();
+    void utils.score.getAuditLog.invalidate();
+    void utils.score.getLeaderboardData.invalidate();
+  };
+
+  const acceptMutation = api.dispute.acceptDispute.useMutation({
+    onSuccess,
+    onError: (error) => onError(error.message),
+  });
+
+  const rejectMutation = api.dispute.rejectDispute.useMutation({
+    onSuccess,
+    onError: (error) => onError(error.message),
+  });
+
+  const handleAccept = () => {
+    const value = parseInt(correction, 10);
+    if (Number.isNaN(value)) {
+      onError(`Please enter the corrected ${scoreType}`);
+      return;
+    }
+
+    acceptMutation.mutate({
+      disputeId: dispute.id,
+      correction:
+        scoreType === "rank"
+          ? { scoreType: "rank", rank: value }
+          : { scoreType: "points", points: value },
+      reply: reply || undefined,
+    });
+  };
+
+  const handleReject = () => {
+    if (!reply.trim()) {
+      onError("Please explain why the dispute is rejected");
+      return;
+    }
+
+    rejectMutation.mutate({ disputeId: dispute.id, reply });
+  };
+
+  const isPending = acceptMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex gap-2">
+        <select
+          value={scoreType}
+          onChange={(e) => setScoreType(e.target.value as "rank" | "points")}
+          className="rounded-md bg-white/20 px-2 py-1 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+        >
+          <option value="rank">Rank</option>
+          <option value="points">Points</option>
+        </select>
+        <input
+          type="number"
+          min={scoreType === "rank" ? "1" : "0"}
+          value={correction}
+          onChange={(e) => setCorrection(e.target.value)}
+          placeholder={`Corrected ${scoreType}`}
+          className="w-full rounded-md bg-white/20 px-3 py-1 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+        />
+      </div>
+      <input
+        type="text"
+        value={reply}
+        onChange={(e) => setReply(e.target.value)}
+        placeholder="Reply to the participant"
+        className="w-full rounded-md bg-white/20 px-3 py-1 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={handleAccept}
+          disabled={isPending}
+          className="flex-1 rounded-md bg-green-600 px-3 py-1 text-sm font-medium text-white transition hover:bg-green-700 disabled:opacity-50"
+        >
+          Accept &amp; Correct
+        </button>
+        <button
+          onClick={handleReject}
+          disabled={isPending}
+          className="flex-1 rounded-md bg-red-600/60 px-3 py-1 text-sm font-medium text-white transition hover:bg-red-600/80 disabled:opacity-50"
+        >
+          Reject
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Queue of open score disputes for admins to accept or reject, oldest first
+ */
+export const DisputeQueuePanel = () => {
+  const [message, setMessage] = useState<{
+    text: string;
+    type: "success" | "error";
+  } | null>(null);
+
+  const { data: disputes, isLoading, error } = api.dispute.getQueue.useQuery();
+
+  return (
+    <div className="rounded-lg bg-white/10 p-6 shadow-md backdrop-blur-sm">
+      <h2 className="mb-4 text-2xl font-bold text-white">Score Disputes</h2>
+
+      {isLoading ? (
+        <p className="text-gray-300">Loading...</p>
+      ) : error ? (
+        <p className="text-red-400">Failed to load disputes</p>
+      ) : !disputes?.length ? (
+        <p className="text-gray-300">No open disputes.</p>
+      ) : (
+        <div className="max-h-96 space-y-3 overflow-y-auto">
+          {disputes.map((dispute) => (
+            <div
+              key={dispute.id}
+              className="rounded-md border border-white/10 bg-white/5 p-3 text-sm"
+            >
+              <p className="font-medium text-white">
+                {dispute.participant.name ?? "Anonymous"} ·{" "}
+                {dispute.score.event.name}
+              </p>
+              <p className="text-gray-300">
+                Currently {dispute.score.points} pts
+                {dispute.score.rank > 0 && ` (#${dispute.score.rank})`}
+              </p>
+              <p className="mt-1 text-gray-200 italic">
+                &ldquo;{dispute.message}&rdquo;
+              </p>
+              <p className="mt-1 text-xs text-gray-400">
+                {new Date(dispute.createdAt).toLocaleString()}
+              </p>
+              <DisputeResolver
+                dispute={dispute}
+                onResolved={(text) => setMessage({ text, type: "success" })}
+                onError={(text) => setMessage({ text, type: "error" })}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Success/Error Message */}
+      {message && (
+        <div
+          className={`mt-4 rounded p-3 ${
+            message.type === "success" ? "bg-green-500/30" : "bg-red-500/30"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+};
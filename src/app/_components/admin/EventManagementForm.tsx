@@ -2,6 +2,46 @@
 
 import { useState } from "react";
 import { api } from "~/trpc/react";
+import {
+  DEFAULT_SCORING_SCHEME,
+  describeScoringScheme,
+  parseScoringScheme,
+  type ScoringScheme,
+} from "~/lib/scoring";
+import {
+  DEFAULT_RANKING_POLICY,
+  parseRankingPolicy,
+  RANKING_POLICIES,
+  RANKING_POLICY_NAMES,
+  type RankingPolicy,
+} from "~/lib/ranking";
+import {
+  DEFAULT_TEAM_BEST_COUNT,
+  DEFAULT_TEAM_SCORING_METHOD,
+  describeTeamScoring,
+  parseTeamScoringMethod,
+  TEAM_SCORING_METHODS,
+  TEAM_SCORING_METHOD_NAMES,
+  type TeamScoringMethod,
+} from "~/lib/teams";
+import {
+  DEFAULT_EVENT_STATUS,
+  EVENT_STATUSES,
+  EVENT_STATUS_NAMES,
+  formatEventTimes,
+  parseEventStatus,
+  type EventStatus,
+} from "~/lib/events";
+import { ScoringSchemeEditor } from "./ScoringSchemeEditor";
+
+/**
+ * Formats a date for a datetime-local input, in the browser's time zone
+ */
+const toDateTimeLocal = (date: Date | null | undefined) => {
+  if (!date) return "";
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
 
 // Define Event type based on the properties used in the component
 interface Event {
@@ -9,6 +49,14 @@ interface Event {
   name: string;
   description?: string | null;
   order?: number | null;
+  scoringScheme?: unknown; // JSON, see ~/lib/scoring
+  rankingPolicy?: string;
+  teamScoring?: string;
+  teamBestCount?: number | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  location?: string | null;
+  status?: string;
 }
 
 /**
@@ -22,6 +70,21 @@ export const EventManagementForm = () => {
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [order, setOrder] = useState<number | undefined>(undefined);
+  const [scoringScheme, setScoringScheme] = useState<ScoringScheme>(
+    DEFAULT_SCORING_SCHEME,
+  );
+  const [rankingPolicy, setRankingPolicy] = useState<RankingPolicy>(
+    DEFAULT_RANKING_POLICY,
+  );
+  const [teamScoring, setTeamScoring] = useState<TeamScoringMethod>(
+    DEFAULT_TEAM_SCORING_METHOD,
+  );
+  const [teamBestCount, setTeamBestCount] = useState(DEFAULT_TEAM_BEST_COUNT);
+  // Schedule, with times as datetime-local input values
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [location, setLocation] = useState("");
+  const [status, setStatus] = useState<EventStatus>(DEFAULT_EVENT_STATUS);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [message, setMessage] = useState<{
     text: string;
@@ -59,8 +122,14 @@ export const EventManagementForm = () => {
 
   // Update event mutation
   const updateEventMutation = api.event.updateEvent.useMutation({
-    onSuccess: () => {
-      setMessage({ text: "Event updated successfully", type: "success" });
+    onSuccess: (data) => {
+      setMessage({
+        text:
+          data.recomputedScores > 0
+            ? `Event updated successfully. Recalculated ${data.recomputedScores} score(s) with the new scoring`
+            : "Event updated successfully",
+        type: "success",
+      });
       setIsSubmitting(false);
       resetForm();
       void refetchEvents();
@@ -71,6 +140,16 @@ export const EventManagementForm = () => {
     },
   });
 
+  // Reorder events mutation
+  const reorderEventsMutation = api.event.reorderEvents.useMutation({
+    onSuccess: () => {
+      void refetchEvents();
+    },
+    onError: (error) => {
+      setMessage({ text: error.message, type: "error" });
+    },
+  });
+
   // Delete event mutation
   const deleteEventMutation = api.event.deleteEvent.useMutation({
     onSuccess: () => {
@@ -94,6 +173,14 @@ export const EventManagementForm = () => {
     setName("");
     setDescription("");
     setOrder(undefined);
+    setScoringScheme(DEFAULT_SCORING_SCHEME);
+    setRankingPolicy(DEFAULT_RANKING_POLICY);
+    setTeamScoring(DEFAULT_TEAM_SCORING_METHOD);
+    setTeamBestCount(DEFAULT_TEAM_BEST_COUNT);
+    setStartsAt("");
+    setEndsAt("");
+    setLocation("");
+    setStatus(DEFAULT_EVENT_STATUS);
   };
 
   /**
@@ -105,6 +192,14 @@ export const EventManagementForm = () => {
     setName(event.name);
     setDescription(event.description ?? "");
     setOrder(event.order ?? undefined);
+    setScoringScheme(parseScoringScheme(event.scoringScheme));
+    setRankingPolicy(parseRankingPolicy(event.rankingPolicy));
+    setTeamScoring(parseTeamScoringMethod(event.teamScoring));
+    setTeamBestCount(event.teamBestCount ?? DEFAULT_TEAM_BEST_COUNT);
+    setStartsAt(toDateTimeLocal(event.startsAt));
+    setEndsAt(toDateTimeLocal(event.endsAt));
+    setLocation(event.location ?? "");
+    setStatus(parseEventStatus(event.status));
     setMessage(null);
     // Scroll to form
     document
@@ -112,6 +207,21 @@ export const EventManagementForm = () => {
       ?.scrollIntoView({ behavior: "smooth" });
   };
 
+  /**
+   * Moves an event one place earlier or later in the schedule
+   */
+  const handleMoveEvent = (index: number, direction: -1 | 1) => {
+    if (!events) return;
+
+    const eventIds = events.map((event) => event.id);
+    const [moved] = eventIds.splice(index, 1);
+    if (!moved) return;
+    eventIds.splice(index + direction, 0, moved);
+
+    setMessage(null);
+    reorderEventsMutation.mutate({ eventIds });
+  };
+
   /**
    * Initiates the delete confirmation for an event
    */
@@ -151,12 +261,24 @@ export const EventManagementForm = () => {
     // Parse order as number if provided
     const orderValue = order !== undefined ? Number(order) : undefined;
 
+    const schedule = {
+      startsAt: startsAt ? new Date(startsAt) : null,
+      endsAt: endsAt ? new Date(endsAt) : null,
+      location: location || null,
+      status,
+    };
+
     if (formMode === "add") {
       // Create new event
       createEventMutation.mutate({
         name,
         description: description ?? undefined,
         order: orderValue,
+        scoringScheme,
+        rankingPolicy,
+        teamScoring,
+        teamBestCount: teamScoring === "best_n" ? teamBestCount : null,
+        ...schedule,
       });
     } else {
       // Update existing event
@@ -166,6 +288,11 @@ export const EventManagementForm = () => {
           name,
           description: description ?? undefined,
           order: orderValue,
+          scoringScheme,
+          rankingPolicy,
+          teamScoring,
+          teamBestCount: teamScoring === "best_n" ? teamBestCount : null,
+          ...schedule,
         });
       }
     }
@@ -202,13 +329,50 @@ export const EventManagementForm = () => {
         </h3>
         {events && events.length > 0 ? (
           <div className="space-y-2">
-            {events.map((event) => (
+            {events.map((event, index) => (
               <div
                 key={event.id}
                 className="flex items-center justify-between rounded-md border border-white/10 bg-white/5 p-3 transition hover:bg-white/10"
               >
+                {/* Schedule Order */}
+                <div className="mr-3 flex flex-col">
+                  <button
+                    onClick={() => handleMoveEvent(index, -1)}
+                    disabled={index === 0 || reorderEventsMutation.isPending}
+                    className="text-xs text-gray-300 hover:text-white disabled:opacity-30"
+                    aria-label={`Move ${event.name} earlier`}
+                  >
+                    ▲
+                  </button>
+                  <button
+                    onClick={() => handleMoveEvent(index, 1)}
+                    disabled={
+                      index === events.length - 1 ||
+                      reorderEventsMutation.isPending
+                    }
+                    className="text-xs text-gray-300 hover:text-white disabled:opacity-30"
+                    aria-label={`Move ${event.name} later`}
+                  >
+                    ▼
+                  </button>
+                </div>
                 <div className="flex-1">
-                  <h4 className="font-medium text-white">{event.name}</h4>
+                  <h4 className="font-medium text-white">
+                    {event.name}
+                    <span className="ml-2 rounded-full bg-white/10 px-2 py-0.5 text-xs font-normal text-gray-300">
+                      {EVENT_STATUS_NAMES[parseEventStatus(event.status)]}
+                    </span>
+                  </h4>
+                  {(event.startsAt ?? event.location) && (
+                    <p className="mt-1 text-xs text-gray-400">
+                      {[
+                        formatEventTimes(event.startsAt, event.endsAt),
+                        event.location,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                  )}
                   {event.description && (
                     <p className="mt-1 text-sm text-gray-300">
                       {event.description}
@@ -219,6 +383,19 @@ export const EventManagementForm = () => {
                       Order: {event.order}
                     </p>
                   )}
+                  <p className="mt-1 text-xs text-gray-400">
+                    Scoring:{" "}
+                    {describeScoringScheme(
+                      parseScoringScheme(event.scoringScheme),
+                    )}
+                  </p>
+                  <p className="mt-1 text-xs text-gray-400">
+                    Teams:{" "}
+                    {describeTeamScoring(
+                      parseTeamScoringMethod(event.teamScoring),
+                      event.teamBestCount,
+                    )}
+                  </p>
                 </div>
                 <div className="ml-4 flex space-x-2">
                   <button
@@ -314,6 +491,161 @@ export const EventManagementForm = () => {
             </p>
           </div>
 
+          {/* Schedule */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label
+                htmlFor="event-starts-at"
+                className="mb-1 block text-sm font-medium text-gray-200"
+              >
+                Starts (Optional)
+              </label>
+              <input
+                id="event-starts-at"
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+                className="w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="event-ends-at"
+                className="mb-1 block text-sm font-medium text-gray-200"
+              >
+                Ends (Optional)
+              </label>
+              <input
+                id="event-ends-at"
+                type="datetime-local"
+                value={endsAt}
+                min={startsAt || undefined}
+                onChange={(e) => setEndsAt(e.target.value)}
+                className="w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+              />
+            </div>
+          </div>
+
+          {/* Location */}
+          <div>
+            <label
+              htmlFor="event-location"
+              className="mb-1 block text-sm font-medium text-gray-200"
+            >
+              Location (Optional)
+            </label>
+            <input
+              id="event-location"
+              type="text"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="e.g. Back garden"
+              className="w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+            />
+          </div>
+
+          {/* Status */}
+          <div>
+            <label
+              htmlFor="event-status"
+              className="mb-1 block text-sm font-medium text-gray-200"
+            >
+              Status
+            </label>
+            <select
+              id="event-status"
+              value={status}
+              onChange={(e) => setStatus(parseEventStatus(e.target.value))}
+              className="w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+            >
+              {EVENT_STATUSES.map((eventStatus) => (
+                <option key={eventStatus} value={eventStatus}>
+                  {EVENT_STATUS_NAMES[eventStatus]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Scoring Scheme */}
+          <div>
+            <ScoringSchemeEditor
+              key={currentEventId ?? "new"}
+              value={scoringScheme}
+              onChange={setScoringScheme}
+            />
+          </div>
+
+          {/* Ranking Policy */}
+          <div>
+            <label
+              htmlFor="event-ranking-policy"
+              className="mb-1 block text-sm font-medium text-gray-200"
+            >
+              Ties
+            </label>
+            <select
+              id="event-ranking-policy"
+              value={rankingPolicy}
+              onChange={(e) =>
+                setRankingPolicy(parseRankingPolicy(e.target.value))
+              }
+              className="w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+            >
+              {RANKING_POLICIES.map((policy) => (
+                <option key={policy} value={policy}>
+                  {RANKING_POLICY_NAMES[policy]}
+                </option>
+              ))}
+            </select>
+            {formMode === "edit" && (
+              <p className="mt-1 text-xs text-gray-400">
+                Changing the scoring or ties recalculates the event&apos;s
+                rank-based scores.
+              </p>
+            )}
+          </div>
+
+          {/* Team Scoring */}
+          <div>
+            <label
+              htmlFor="event-team-scoring"
+              className="mb-1 block text-sm font-medium text-gray-200"
+            >
+              Team Points
+            </label>
+            <select
+              id="event-team-scoring"
+              value={teamScoring}
+              onChange={(e) =>
+                setTeamScoring(parseTeamScoringMethod(e.target.value))
+              }
+              className="w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+            >
+              {TEAM_SCORING_METHODS.map((method) => (
+                <option key={method} value={method}>
+                  {TEAM_SCORING_METHOD_NAMES[method]}
+                </option>
+              ))}
+            </select>
+            {teamScoring === "best_n" && (
+              <div className="mt-2 flex items-center gap-2 text-sm text-gray-200">
+                <label htmlFor="event-team-best-count">Scores that count</label>
+                <input
+                  id="event-team-best-count"
+                  type="number"
+                  min="1"
+                  value={teamBestCount}
+                  onChange={(e) =>
+                    setTeamBestCount(
+                      Math.max(1, parseInt(e.target.value, 10) || 1),
+                    )
+                  }
+                  className="w-20 rounded-md bg-white/20 px-3 py-1 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                />
+              </div>
+            )}
+          </div>
+
           {/* Form Actions */}
           <div className="flex space-x-3">
             <button
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "~/trpc/react";
+
+/**
+ * Queue of game runs flagged by the tap-count anti-cheat checks
+ * Lets admins review suspicious results and clear them from the queue
+ */
+export const FlaggedRunsPanel = () => {
+  const [message, setMessage] = useState<{
+    text: string;
+    type: "success" | "error";
+  } | null>(null);
+
+  const {
+    data: flaggedRuns,
+    isLoading,
+    error,
+    refetch,
+  } = api.admin.getFlaggedGameRuns.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+
+  const reviewMutation = api.admin.reviewFlaggedGameRun.useMutation({
+    onSuccess: (data) => {
+      setMessage({ text: data.message, type: "success" });
+      void refetch();
+    },
+    onError: (error) => {
+      setMessage({ text: error.message, type: "error" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="rounded-lg bg-white/10 p-6 shadow-md backdrop-blur-sm">
+        <h2 className="mb-4 text-2xl font-bold text-white">
+          Flagged Game Runs
+        </h2>
+        <p className="text-gray-300">Loading...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-lg bg-white/10 p-6 shadow-md backdrop-blur-sm">
+        <h2 className="mb-4 text-2xl font-bold text-white">
+          Flagged Game Runs
+        </h2>
+        <p className="text-red-400">Failed to load flagged runs</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg bg-white/10 p-6 shadow-md backdrop-blur-sm">
+      <h2 className="mb-4 text-2xl font-bold text-white">Flagged Game Runs</h2>
+
+      {flaggedRuns && flaggedRuns.length > 0 ? (
+        <div className="space-y-2">
+          {flaggedRuns.map((run) => (
+            <div
+              key={run.id}
+              className="rounded-md border border-white/10 bg-white/5 p-3"
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <h4 className="font-medium text-white">
+                    {run.participant.name ?? "Anonymous"}
+                  </h4>
+                  <p className="mt-1 text-xs text-gray-400">
+                    Game {run.game.id.substring(0, 8)}...
+                    {run.game.startedAt &&
+                      ` · ${new Date(run.game.startedAt).toLocaleString()}`}
+                  </p>
+                  <p className="mt-1 text-sm text-gray-300">
+                    Recorded taps: {run.tapCount}
+                  </p>
+                  {run.flagReason && (
+                    <p className="mt-1 text-sm text-yellow-300">
+                      {run.flagReason}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() =>
+                    reviewMutation.mutate({ gameParticipantId: run.id })
+                  }
+                  disabled={reviewMutation.isPending}
+                  className="ml-4 rounded-md bg-blue-600/30 px-3 py-1 text-sm font-medium text-white transition hover:bg-blue-600/50 disabled:opacity-50"
+                >
+                  Mark Reviewed
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-300">No suspicious runs to review.</p>
+      )}
+
+      {message && (
+        <div
+          className={`mt-4 rounded p-3 ${
+            message.type === "success" ? "bg-green-500/30" : "bg-red-500/30"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+};
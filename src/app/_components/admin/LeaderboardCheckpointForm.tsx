@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "~/trpc/react";
+
+/**
+ * Form for admins to save the current standings as a named checkpoint.
+ * The leaderboard's rank arrows then show movement since the latest checkpoint.
+ */
+export const LeaderboardCheckpointForm = () => {
+  const [label, setLabel] = useState("");
+  const [message, setMessage] = useState<{
+    text: string;
+    type: "success" | "error";
+  } | null>(null);
+  const utils = api.useUtils();
+
+  const checkpointMutation = api.score.createLeaderboardCheckpoint.useMutation({
+    onSuccess: (data) => {
+      setMessage({ text: data.message, type: "success" });
+      setLabel("");
+      void utils.score.getLeaderboardData.invalidate();
+      void utils.score.getPositionHistory.invalidate();
+    },
+    onError: (error) => {
+      setMessage({ text: error.message, type: "error" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    checkpointMutation.mutate({ label });
+  };
+
+  return (
+    <div className="rounded-lg bg-white/10 p-6 shadow-md backdrop-blur-sm">
+      <h2 className="mb-4 text-2xl font-bold text-white">
+        Leaderboard Checkpoint
+      </h2>
+      <p className="mb-4 text-sm text-gray-300">
+        Save the current standings. Rank arrows on the leaderboard will show
+        movement since the latest checkpoint.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label
+            htmlFor="checkpoint-label"
+            className="mb-1 block text-sm font-medium text-gray-200"
+          >
+            Name
+          </label>
+          <input
+            id="checkpoint-label"
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="e.g. End of day 1"
+            className="w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+            required
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={checkpointMutation.isPending}
+          className={`w-full rounded-md px-4 py-2 font-medium transition-colors ${
+            checkpointMutation.isPending
+              ? "cursor-not-allowed bg-purple-400"
+              : "bg-purple-600 hover:bg-purple-700"
+          }`}
+        >
+          {checkpointMutation.isPending ? "Saving..." : "Save Checkpoint"}
+        </button>
+      </form>
+
+      {/* Success/Error Message */}
+      {message && (
+        <div
+          className={`mt-4 rounded p-3 ${
+            message.type === "success" ? "bg-green-500/30" : "bg-red-500/30"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "~/trpc/react";
+
+// Mute lengths offered to moderators, in minutes
+const MUTE_OPTIONS = [
+  { minutes: 15, label: "15m" },
+  { minutes: 60, label: "1h" },
+  { minutes: 60 * 24, label: "24h" },
+];
+
+/**
+ * Queue of reported chat messages for admins to hide, delete or dismiss,
+ * with the option to mute the author for a while
+ */
+export const ModerationQueuePanel = () => {
+  const [message, setMessage] = useState<{
+    text: string;
+    type: "success" | "error";
+  } | null>(null);
+  const utils = api.useUtils();
+
+  const {
+    data: reportedMessages,
+    isLoading,
+    error,
+  } = api.message.getReportQueue.useQuery();
+
+  const mutationOptions = {
+    onSuccess: (data: { message: string }) => {
+      setMessage({ text: data.message, type: "success" });
+      void utils.message.getReportQueue.invalidate();
+    },
+    onError: (error: { message: string }) =>
+      setMessage({ text: error.message, type: "error" }),
+  };
+
+  const hideMutation = api.message.hideMessage.useMutation(mutationOptions);
+  const deleteMutation = api.message.deleteMessage.useMutation(mutationOptions);
+  const dismissMutation =
+    api.message.dismissReports.useMutation(mutationOptions);
+  const muteMutation = api.message.muteParticipant.useMutation(mutationOptions);
+
+  const isPending =
+    hideMutation.isPending ||
+    deleteMutation.isPending ||
+    dismissMutation.isPending ||
+    muteMutation.isPending;
+
+  return (
+    <div className="rounded-lg bg-white/10 p-6 shadow-md backdrop-blur-sm">
+      <h2 className="mb-4 text-2xl font-bold text-white">Chat Reports</h2>
+
+      {isLoading ? (
+        <p className="text-gray-300">Loading...</p>
+      ) : error ? (
+        <p className="text-red-400">Failed to load reports</p>
+      ) : !reportedMessages?.length ? (
+        <p className="text-gray-300">No reported messages.</p>
+      ) : (
+        <div className="max-h-96 space-y-3 overflow-y-auto">
+          {reportedMessages.map((reported) => {
+            const mutedUntil = reported.participant.mutedUntil;
+            const isMuted = !!mutedUntil && new Date(mutedUntil) > new Date();
+
+            return (
+              <div
+                key={reported.id}
+                className="rounded-md border border-white/10 bg-white/5 p-3 text-sm"
+              >
+                <p className="font-medium text-white">
+                  {reported.participant.name ?? "Anonymous"}
+                  {reported.hiddenAt && (
+                    <span className="ml-2 text-xs text-gray-400">Hidden</span>
+                  )}
+                </p>
+                <p className="mt-1 text-gray-200 italic">
+                  &ldquo;{reported.content}&rdquo;
+                </p>
+                <ul className="mt-2 space-y-1 text-xs text-gray-300">
+                  {reported.reports.map((report) => (
+                    <li key={report.id}>
+                      <span className="font-medium">
+                        {report.reporter.name ?? "Anonymous"}:
+                      </span>{" "}
+                      {report.reason}
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="mt-3 flex gap-2">
+                  {!reported.hiddenAt && (
+                    <button
+                      onClick={() =>
+                        hideMutation.mutate({ messageId: reported.id })
+                      }
+                      disabled={isPending}
+                      className="flex-1 rounded-md bg-yellow-600/60 px-3 py-1 text-sm font-medium text-white transition hover:bg-yellow-600/80 disabled:opacity-50"
+                    >
+                      Hide
+                    </button>
+                  )}
+                  <button
+                    onClick={() =>
+                      deleteMutation.mutate({ messageId: reported.id })
+                    }
+                    disabled={isPending}
+                    className="flex-1 rounded-md bg-red-600/60 px-3 py-1 text-sm font-medium text-white transition hover:bg-red-600/80 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    onClick={() =>
+                      dismissMutation.mutate({ messageId: reported.id })
+                    }
+                    disabled={isPending}
+                    className="flex-1 rounded-md bg-white/10 px-3 py-1 text-sm font-medium text-white transition hover:bg-white/20 disabled:opacity-50"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+
+                <div className="mt-2 flex items-center gap-2 text-xs text-gray-300">
+                  <span>
+                    {isMuted
+                      ? `Muted until ${new Date(mutedUntil).toLocaleString()}`
+                      : "Mute author:"}
+                  </span>
+                  {isMuted ? (
+                    <button
+                      onClick={() =>
+                        muteMutation.mutate({
+                          participantId: reported.participant.id,
+                          minutes: 0,
+                        })
+                      }
+                      disabled={isPending}
+                      className="rounded-md bg-white/10 px-2 py-1 text-white transition hover:bg-white/20 disabled:opacity-50"
+                    >
+                      Unmute
+                    </button>
+                  ) : (
+                    MUTE_OPTIONS.map((option) => (
+                      <button
+                        key={option.minutes}
+                        onClick={() =>
+                          muteMutation.mutate({
+                            participantId: reported.participant.id,
+                            minutes: option.minutes,
+                          })
+                        }
+                        disabled={isPending}
+                        className="rounded-md bg-white/10 px-2 py-1 text-white transition hover:bg-white/20 disabled:opacity-50"
+                      >
+                        {option.label}
+                      </button>
+                    ))
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Success/Error Message */}
+      {message && (
+        <div
+          className={`mt-4 rounded p-3 ${
+            message.type === "success" ? "bg-green-500/30" : "bg-red-500/30"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+};
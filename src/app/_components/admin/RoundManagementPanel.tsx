@@ -0,0 +1,361 @@
+"use client";
+
+import { useState } from "react";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+type Round = RouterOutputs["round"]["getBracket"][number];
+type Heat = Round["heats"][number];
+
+/**
+ * Place inputs for one heat of the round in progress
+ */
+const HeatResultsForm = ({
+  heat,
+  onSaved,
+  onError,
+}: {
+  heat: Heat;
+  onSaved: (message: string) => void;
+  onError: (message: string) => void;
+}) => {
+  // Places entered, keyed by participant id; starts from any saved results
+  const [places, setPlaces] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      heat.entries.map((entry) => [
+        entry.participantId,
+        entry.place?.toString() ?? "",
+      ]),
+    ),
+  );
+  const utils = api.useUtils();
+
+  const recordResultsMutation = api.round.recordHeatResults.useMutation({
+    onSuccess: (data) => {
+      onSaved(data.message);
+      void utils.round.getBracket.invalidate();
+    },
+    onError: (error) => onError(error.message),
+  });
+
+  const handleSave = () => {
+    recordResultsMutation.mutate({
+      heatId: heat.id,
+      places: heat.entries.map((entry) => {
+        const place = parseInt(places[entry.participantId] ?? "", 10);
+        return {
+          participantId: entry.participantId,
+          place: Number.isNaN(place) ? null : place,
+        };
+      }),
+    });
+  };
+
+  return (
+    <div className="rounded-md border border-white/10 bg-white/5 p-3">
+      <p className="mb-2 text-sm font-medium text-gray-200">{heat.name}</p>
+      <div className="space-y-1">
+        {heat.entries.map((entry) => (
+          <label
+            key={entry.id}
+            className="flex items-center justify-between gap-3 text-sm text-gray-200"
+          >
+            <span className="truncate">
+              {entry.participant.name ?? "Anonymous"}
+            </span>
+            <input
+              type="number"
+              min="1"
+              value={places[entry.participantId] ?? ""}
+              onChange={(e) =>
+                setPlaces((current) => ({
+                  ...current,
+                  [entry.participantId]: e.target.value,
+                }))
+              }
+              placeholder="Place"
+              className="w-20 rounded-md bg-white/20 px-3 py-1 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+            />
+          </label>
+        ))}
+      </div>
+      <button
+        onClick={handleSave}
+        disabled={recordResultsMutation.isPending}
+        className="mt-2 w-full rounded-md bg-white/10 px-3 py-1 text-sm text-white transition hover:bg-white/20 disabled:opacity-50"
+      >
+        Save {heat.name}
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Admin tools for running an event in rounds: set up heats, enter heat results,
+ * and complete each round so the top finishers go through. Completing the final saves the scores.
+ */
+export const RoundManagementPanel = () => {
+  const [eventId, setEventId] = useState("");
+  // New round settings
+  const [name, setName] = useState("");
+  const [heatCount, setHeatCount] = useState(2);
+  const [isFinal, setIsFinal] = useState(false);
+  const [advanceCount, setAdvanceCount] = useState(2);
+  const [participantIds, setParticipantIds] = useState<string[]>([]);
+  const [message, setMessage] = useState<{
+    text: string;
+    type: "success" | "error";
+  } | null>(null);
+  const utils = api.useUtils();
+
+  const { data: events } = api.event.getAll.useQuery();
+  const { data: participants } = api.participant.getAll.useQuery();
+
+  const { data: rounds, isLoading: roundsLoading } =
+    api.round.getBracket.useQuery({ eventId }, { enabled: !!eventId });
+
+  const showSuccess = (text: string) => setMessage({ text, type: "success" });
+  const showError = (text: string) => setMessage({ text, type: "error" });
+
+  const createRoundMutation = api.round.createRound.useMutation({
+    onSuccess: (round) => {
+      showSuccess(`${round.name} created`);
+      setName("");
+      setParticipantIds([]);
+      void utils.round.getBracket.invalidate();
+    },
+    onError: (error) => showError(error.message),
+  });
+
+  const completeRoundMutation = api.round.completeRound.useMutation({
+    onSuccess: (data) => {
+      showSuccess(data.message);
+      void utils.round.getBracket.invalidate();
+      void utils.score.getLeaderboardData.invalidate();
+    },
+    onError: (error) => showError(error.message),
+  });
+
+  const deleteRoundMutation = api.round.deleteRound.useMutation({
+    onSuccess: (data) => {
+      showSuccess(data.message);
+      void utils.round.getBracket.invalidate();
+    },
+    onError: (error) => showError(error.message),
+  });
+
+  const latestRound = rounds?.[rounds.length - 1];
+  const canAddRound =
+    !!eventId &&
+    !!rounds &&
+    (!latestRound ||
+      (latestRound.status === "completed" && !latestRound.isFinal));
+
+  const handleCreateRound = (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    createRoundMutation.mutate({
+      eventId,
+      name,
+      heatCount: isFinal ? 1 : heatCount,
+      isFinal,
+      advanceCount: isFinal ? undefined : advanceCount,
+      participantIds: latestRound ? undefined : participantIds,
+    });
+  };
+
+  const toggleParticipant = (participantId: string) => {
+    setParticipantIds((current) =>
+      current.includes(participantId)
+        ? current.filter((id) => id !== participantId)
+        : [...current, participantId],
+    );
+  };
+
+  return (
+    <div className="rounded-lg bg-white/10 p-6 shadow-md backdrop-blur-sm">
+      <h2 className="mb-4 text-2xl font-bold text-white">Heats & Finals</h2>
+
+      <select
+        value={eventId}
+        onChange={(e) => {
+          setEventId(e.target.value);
+          setMessage(null);
+        }}
+        className="mb-4 w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+      >
+        <option value="" disabled>
+          Select an event
+        </option>
+        {events?.map((event) => (
+          <option key={event.id} value={event.id}>
+            {event.name}
+          </option>
+        ))}
+      </select>
+
+      {eventId && roundsLoading && <p className="text-gray-300">Loading...</p>}
+
+      {/* Rounds */}
+      {rounds?.map((round) => (
+        <div
+          key={round.id}
+          className="mb-4 rounded-md border border-white/10 bg-white/5 p-3"
+        >
+          <div className="mb-2 flex items-center justify-between">
+            <p className="font-medium text-white">
+              {round.name}
+              <span className="ml-2 text-xs text-gray-400">
+                {round.isFinal
+                  ? "Final"
+                  : `Top ${round.advanceCount} per heat go through`}
+                {round.status === "completed" && " · Complete"}
+              </span>
+            </p>
+            {round.id === latestRound?.id && (
+              <button
+                onClick={() =>
+                  deleteRoundMutation.mutate({ roundId: round.id })
+                }
+                disabled={deleteRoundMutation.isPending}
+                className="rounded-md bg-red-600/30 px-2 py-1 text-xs text-white transition hover:bg-red-600/50 disabled:opacity-50"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+
+          {round.status === "completed" ? (
+            <p className="text-xs text-gray-300">
+              {round.heats
+                .flatMap((heat) => heat.entries)
+                .filter((entry) => entry.advanced)
+                .map((entry) => entry.participant.name ?? "Anonymous")
+                .join(", ") || "Results saved to the leaderboard"}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {round.heats.map((heat) => (
+                <HeatResultsForm
+                  key={heat.id}
+                  heat={heat}
+                  onSaved={showSuccess}
+                  onError={showError}
+                />
+              ))}
+              <button
+                onClick={() =>
+                  completeRoundMutation.mutate({ roundId: round.id })
+                }
+                disabled={completeRoundMutation.isPending}
+                className="w-full rounded-md bg-green-600 px-4 py-2 font-medium text-white transition-colors hover:bg-green-700 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {round.isFinal
+                  ? "Complete Final & Save Scores"
+                  : "Complete Round"}
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {/* New Round */}
+      {canAddRound && (
+        <form
+          onSubmit={handleCreateRound}
+          className="space-y-3 rounded-md border border-white/10 bg-white/5 p-3"
+        >
+          <p className="font-medium text-white">
+            {latestRound ? "Next Round" : "First Round"}
+          </p>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={isFinal ? "e.g. Final" : "e.g. Heats"}
+            className="w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+            required
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-200">
+            <input
+              type="checkbox"
+              checked={isFinal}
+              onChange={(e) => setIsFinal(e.target.checked)}
+            />
+            This is the final
+          </label>
+          {!isFinal && (
+            <div className="grid grid-cols-2 gap-3 text-sm text-gray-200">
+              <label>
+                Heats
+                <input
+                  type="number"
+                  min="1"
+                  max="20"
+                  value={heatCount}
+                  onChange={(e) =>
+                    setHeatCount(Math.max(1, parseInt(e.target.value, 10) || 1))
+                  }
+                  className="mt-1 w-full rounded-md bg-white/20 px-3 py-1 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                />
+              </label>
+              <label>
+                Top N go through
+                <input
+                  type="number"
+                  min="1"
+                  value={advanceCount}
+                  onChange={(e) =>
+                    setAdvanceCount(
+                      Math.max(1, parseInt(e.target.value, 10) || 1),
+                    )
+                  }
+                  className="mt-1 w-full rounded-md bg-white/20 px-3 py-1 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                />
+              </label>
+            </div>
+          )}
+          {latestRound ? (
+            <p className="text-xs text-gray-400">
+              Everyone who went through from {latestRound.name} is seeded into
+              the new heats.
+            </p>
+          ) : (
+            <div className="max-h-48 space-y-1 overflow-y-auto">
+              {participants?.map((participant) => (
+                <label
+                  key={participant.id}
+                  className="flex items-center gap-2 text-sm text-gray-200"
+                >
+                  <input
+                    type="checkbox"
+                    checked={participantIds.includes(participant.id)}
+                    onChange={() => toggleParticipant(participant.id)}
+                  />
+                  {participant.name ?? "Anonymous"}
+                </label>
+              ))}
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={createRoundMutation.isPending}
+            className="w-full rounded-md bg-purple-600 px-4 py-2 font-medium transition-colors hover:bg-purple-700 disabled:cursor-not-allowed disabled:bg-purple-400"
+          >
+            {createRoundMutation.isPending ? "Creating..." : "Create Round"}
+          </button>
+        </form>
+      )}
+
+      {/* Success/Error Message */}
+      {message && (
+        <div
+          className={`mt-4 rounded p-3 ${
+            message.type === "success" ? "bg-green-500/30" : "bg-red-500/30"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "~/trpc/react";
+
+const SOURCE_LABELS: Record<string, string> = {
+  admin_entry: "Score entry",
+  bulk_results: "Results entry",
+  recompute: "Scoring change",
+  game: "Mini-game",
+  dispute: "Dispute",
+  revert: "Revert",
+};
+
+/**
+ * Formats a score as it was before or after a change, e.g. "12 pts (#3)"
+ */
+const formatScore = (points: number | null, rank: number | null) => {
+  if (points === null) return "No score";
+  return rank ? `${points} pts (#${rank})` : `${points} pts`;
+};
+
+/**
+ * History of every score change, newest first
+ * Lets admins see who changed what and revert any change with one click
+ */
+export const ScoreAuditLogPanel = () => {
+  const [eventId, setEventId] = useState("");
+  const [message, setMessage] = useState<{
+    text: string;
+    type: "success" | "error";
+  } | null>(null);
+  const utils = api.useUtils();
+
+  const { data: events } = api.event.getAll.useQuery();
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage } =
+    api.score.getAuditLog.useInfiniteQuery(
+      { eventId: eventId || undefined },
+      {
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+        refetchOnWindowFocus: false,
+      },
+    );
+
+  const revertMutation = api.score.revertAuditEntry.useMutation({
+    onSuccess: (data) => {
+      setMessage({ text: data.message, type: "success" });
+      void utils.score.getAuditLog.invalidate();
+      void utils.score.getLeaderboardData.invalidate();
+    },
+    onError: (error) => {
+      setMessage({ text: error.message, type: "error" });
+    },
+  });
+
+  const entries = data?.pages.flatMap((page) => page.entries) ?? [];
+
+  return (
+    <div className="rounded-lg bg-white/10 p-6 shadow-md backdrop-blur-sm">
+      <h2 className="mb-4 text-2xl font-bold text-white">Score History</h2>
+
+      <select
+        value={eventId}
+        onChange={(e) => setEventId(e.target.value)}
+        className="mb-4 w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+      >
+        <option value="">All events</option>
+        {events?.map((event) => (
+          <option key={event.id} value={event.id}>
+            {event.name}
+          </option>
+        ))}
+      </select>
+
+      {isLoading ? (
+        <p className="text-gray-300">Loading...</p>
+      ) : error ? (
+        <p className="text-red-400">Failed to load score history</p>
+      ) : entries.length === 0 ? (
+        <p className="text-gray-300">No score changes yet.</p>
+      ) : (
+        <div className="max-h-96 space-y-2 overflow-y-auto">
+          {entries.map((entry) => (
+            <div
+              key={entry.id}
+              className="rounded-md border border-white/10 bg-white/5 p-3 text-sm"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium text-white">
+                    {entry.participant.name ?? "Anonymous"} · {entry.event.name}
+                  </p>
+                  <p className="text-gray-300">
+                    {formatScore(entry.previousPoints, entry.previousRank)} →{" "}
+                    {formatScore(entry.newPoints, entry.newRank)}
+                  </p>
+                </div>
+                <button
+                  onClick={() =>
+                    revertMutation.mutate({
+                      entryId: entry.id,
+                      reason: `Reverted change from ${new Date(entry.createdAt).toLocaleString()}`,
+                    })
+                  }
+                  disabled={revertMutation.isPending}
+                  className="rounded-md bg-red-600/30 px-3 py-1 text-xs font-medium text-white transition hover:bg-red-600/50 disabled:opacity-50"
+                >
+                  Revert
+                </button>
+              </div>
+              <p className="mt-1 text-xs text-gray-400">
+                {SOURCE_LABELS[entry.source] ?? entry.source} by{" "}
+                {entry.actor?.name ?? "the system"} ·{" "}
+                {new Date(entry.createdAt).toLocaleString()}
+                {entry.reverts.length > 0 && " · Reverted"}
+              </p>
+              {entry.reason && (
+                <p className="mt-1 text-xs text-gray-300 italic">
+                  {entry.reason}
+                </p>
+              )}
+            </div>
+          ))}
+          {hasNextPage && (
+            <button
+              onClick={() => void fetchNextPage()}
+              className="w-full rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Success/Error Message */}
+      {message && (
+        <div
+          className={`mt-4 rounded p-3 ${
+            message.type === "success" ? "bg-green-500/30" : "bg-red-500/30"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,6 +2,8 @@
 
 import { useState } from "react";
 import { api } from "~/trpc/react";
+import { parseRankingPolicy } from "~/lib/ranking";
+import { parseScoringScheme, pointsForRank } from "~/lib/scoring";
 
 /**
  * Form component for admin to enter scores for participants in events
@@ -14,6 +16,7 @@ export const ScoreEntryForm = () => {
   const [scoreType, setScoreType] = useState<"rank" | "points">("rank");
   const [rank, setRank] = useState<number>(1);
   const [points, setPoints] = useState<number>(0);
+  const [reason, setReason] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [message, setMessage] = useState<{
     text: string;
@@ -41,6 +44,7 @@ export const ScoreEntryForm = () => {
       setIsSubmitting(false);
       // Optionally reset form
       setRank(1);
+      setReason("");
     },
     onError: (error) => {
       setMessage({ text: error.message, type: "error" });
@@ -48,6 +52,8 @@ export const ScoreEntryForm = () => {
     },
   });
 
+  const selectedEvent = events?.find((event) => event.id === eventId);
+
   /**
    * Handles form submission to update a score
    */
@@ -91,6 +97,7 @@ export const ScoreEntryForm = () => {
       scoreType,
       rank: scoreType === "rank" ? rank : undefined,
       points: scoreType === "points" ? points : undefined,
+      reason: reason || undefined,
     });
   };
 
@@ -213,20 +220,26 @@ export const ScoreEntryForm = () => {
               htmlFor="rank"
               className="mb-1 block text-sm font-medium text-gray-200"
             >
-              Rank (1-14)
+              Rank
             </label>
             <input
               id="rank"
               type="number"
               min="1"
-              max="14"
               value={rank}
               onChange={(e) => setRank(parseInt(e.target.value))}
               className="w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
               required
             />
             <p className="mt-1 text-xs text-gray-400">
-              Points will be calculated as (15 - rank)
+              {selectedEvent && rank > 0
+                ? `Worth ${pointsForRank(parseScoringScheme(selectedEvent.scoringScheme), rank)} points with this event's scoring${
+                    parseRankingPolicy(selectedEvent.rankingPolicy) ===
+                    "split_points"
+                      ? ", split with anyone tied at this rank"
+                      : ""
+                  }`
+                : "Points will be calculated from the event's scoring"}
             </p>
           </div>
         )}
@@ -252,6 +265,24 @@ export const ScoreEntryForm = () => {
           </div>
         )}
 
+        {/* Reason */}
+        <div>
+          <label
+            htmlFor="score-reason"
+            className="mb-1 block text-sm font-medium text-gray-200"
+          >
+            Reason (Optional)
+          </label>
+          <input
+            id="score-reason"
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Corrected photo finish"
+            className="w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+          />
+        </div>
+
         {/* Submit Button */}
         <button
           type="submit"
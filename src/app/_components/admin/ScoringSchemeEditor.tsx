@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import {
+  SCORING_SCHEME_NAMES,
+  describeScoringScheme,
+  type ScoringScheme,
+  type ScoringSchemeType,
+} from "~/lib/scoring";
+
+interface ScoringSchemeEditorProps {
+  value: ScoringScheme;
+  onChange: (scheme: ScoringScheme) => void;
+}
+
+const inputClassName =
+  "w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none";
+
+/**
+ * Fields for picking how an event turns ranks into points
+ * Remount it (e.g. with a key) to load a different event's scheme
+ */
+export const ScoringSchemeEditor = ({
+  value,
+  onChange,
+}: ScoringSchemeEditorProps) => {
+  // Kept as typed so half-finished lists like "10, 8," aren't rewritten under the cursor
+  const [tableText, setTableText] = useState(
+    value.type === "table" ? value.points.join(", ") : "",
+  );
+
+  const parseNumber = (text: string) => Math.max(0, parseInt(text, 10) || 0);
+
+  const handleTypeChange = (type: ScoringSchemeType) => {
+    const multiplier = value.multiplier;
+
+    switch (type) {
+      case "linear":
+        onChange({
+          type,
+          firstPlacePoints: 14,
+          pointsPerPlace: 1,
+          minimumPoints: 0,
+          multiplier,
+        });
+        break;
+      case "table": {
+        const points = [10, 8, 6, 5, 4, 3, 2, 1];
+        setTableText(points.join(", "));
+        onChange({ type, points, multiplier });
+        break;
+      }
+      case "winner_takes_all":
+        onChange({ type, points: 10, multiplier });
+        break;
+    }
+  };
+
+  const handleTableChange = (text: string) => {
+    setTableText(text);
+    const points = text
+      .split(",")
+      .map((part) => part.trim())
+      .filter((part) => part !== "")
+      .map(parseNumber);
+
+    if (points.length > 0) {
+      onChange({ type: "table", points, multiplier: value.multiplier });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label
+          htmlFor="scoring-scheme-type"
+          className="mb-1 block text-sm font-medium text-gray-200"
+        >
+          Scoring
+        </label>
+        <select
+          id="scoring-scheme-type"
+          value={value.type}
+          onChange={(e) =>
+            handleTypeChange(e.target.value as ScoringSchemeType)
+          }
+          className={inputClassName}
+        >
+          {(Object.keys(SCORING_SCHEME_NAMES) as ScoringSchemeType[]).map(
+            (type) => (
+              <option key={type} value={type}>
+                {SCORING_SCHEME_NAMES[type]}
+              </option>
+            ),
+          )}
+        </select>
+      </div>
+
+      {value.type === "linear" && (
+        <div className="grid grid-cols-3 gap-3">
+          <label className="text-sm text-gray-200">
+            1st place
+            <input
+              type="number"
+              min="0"
+              value={value.firstPlacePoints}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  firstPlacePoints: parseNumber(e.target.value),
+                })
+              }
+              className={`mt-1 ${inputClassName}`}
+            />
+          </label>
+          <label className="text-sm text-gray-200">
+            Fewer per place
+            <input
+              type="number"
+              min="0"
+              value={value.pointsPerPlace}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  pointsPerPlace: parseNumber(e.target.value),
+                })
+              }
+              className={`mt-1 ${inputClassName}`}
+            />
+          </label>
+          <label className="text-sm text-gray-200">
+            Minimum
+            <input
+              type="number"
+              min="0"
+              value={value.minimumPoints}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  minimumPoints: parseNumber(e.target.value),
+                })
+              }
+              className={`mt-1 ${inputClassName}`}
+            />
+          </label>
+        </div>
+      )}
+
+      {value.type === "table" && (
+        <label className="block text-sm text-gray-200">
+          Points for 1st, 2nd, 3rd... (comma separated)
+          <input
+            type="text"
+            value={tableText}
+            onChange={(e) => handleTableChange(e.target.value)}
+            className={`mt-1 ${inputClassName}`}
+          />
+        </label>
+      )}
+
+      {value.type === "winner_takes_all" && (
+        <label className="block text-sm text-gray-200">
+          Winner&apos;s points
+          <input
+            type="number"
+            min="0"
+            value={value.points}
+            onChange={(e) =>
+              onChange({ ...value, points: parseNumber(e.target.value) })
+            }
+            className={`mt-1 ${inputClassName}`}
+          />
+        </label>
+      )}
+
+      <label className="block text-sm text-gray-200">
+        Points multiplier
+        <select
+          value={value.multiplier}
+          onChange={(e) =>
+            onChange({ ...value, multiplier: Number(e.target.value) })
+          }
+          className={`mt-1 ${inputClassName}`}
+        >
+          <option value={1}>×1</option>
+          <option value={1.5}>×1.5</option>
+          <option value={2}>×2 (double points)</option>
+          <option value={3}>×3 (triple points)</option>
+        </select>
+      </label>
+
+      <p className="text-xs text-gray-400">{describeScoringScheme(value)}</p>
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "~/trpc/react";
+
+const DEFAULT_TEAM_COLOR = "#3b82f6";
+
+/**
+ * Admin tools for the team competition: create and delete teams, and put participants in them
+ */
+export const TeamManagementPanel = () => {
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(DEFAULT_TEAM_COLOR);
+  const [message, setMessage] = useState<{
+    text: string;
+    type: "success" | "error";
+  } | null>(null);
+  const utils = api.useUtils();
+
+  const {
+    data: teams,
+    isLoading: teamsLoading,
+    error: teamsError,
+  } = api.team.getAll.useQuery();
+
+  const {
+    data: participants,
+    isLoading: participantsLoading,
+    error: participantsError,
+  } = api.participant.getAll.useQuery();
+
+  // Team membership changes both lists and the standings
+  const refreshTeams = () => {
+    void utils.team.getAll.invalidate();
+    void utils.team.getLeaderboard.invalidate();
+    void utils.participant.getAll.invalidate();
+  };
+
+  const createTeamMutation = api.team.createTeam.useMutation({
+    onSuccess: (team) => {
+      setMessage({ text: `Team "${team.name}" created`, type: "success" });
+      setName("");
+      setColor(DEFAULT_TEAM_COLOR);
+      refreshTeams();
+    },
+    onError: (error) => {
+      setMessage({ text: error.message, type: "error" });
+    },
+  });
+
+  const deleteTeamMutation = api.team.deleteTeam.useMutation({
+    onSuccess: (data) => {
+      setMessage({ text: data.message, type: "success" });
+      refreshTeams();
+    },
+    onError: (error) => {
+      setMessage({ text: error.message, type: "error" });
+    },
+  });
+
+  const assignMutation = api.team.assignParticipant.useMutation({
+    onSuccess: refreshTeams,
+    onError: (error) => {
+      setMessage({ text: error.message, type: "error" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    createTeamMutation.mutate({ name, color });
+  };
+
+  if (teamsLoading || participantsLoading) {
+    return (
+      <div className="rounded-lg bg-white/10 p-6 shadow-md backdrop-blur-sm">
+        <h2 className="mb-4 text-2xl font-bold text-white">Teams</h2>
+        <p className="text-gray-300">Loading...</p>
+      </div>
+    );
+  }
+
+  if (teamsError || participantsError) {
+    return (
+      <div className="rounded-lg bg-white/10 p-6 shadow-md backdrop-blur-sm">
+        <h2 className="mb-4 text-2xl font-bold text-white">Teams</h2>
+        <p className="text-red-400">
+          {teamsError ? "Failed to load teams" : "Failed to load participants"}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg bg-white/10 p-6 shadow-md backdrop-blur-sm">
+      <h2 className="mb-4 text-2xl font-bold text-white">Teams</h2>
+
+      {/* Team List */}
+      {teams && teams.length > 0 ? (
+        <div className="mb-6 space-y-2">
+          {teams.map((team) => (
+            <div
+              key={team.id}
+              className="flex items-center justify-between rounded-md border border-white/10 bg-white/5 p-3"
+            >
+              <div className="flex items-center">
+                <span
+                  className="mr-2 h-3 w-3 rounded-full border border-white/30"
+                  style={{ backgroundColor: team.color ?? undefined }}
+                />
+                <span className="font-medium text-white">{team.name}</span>
+                <span className="ml-2 text-xs text-gray-400">
+                  {team.members.length} member(s)
+                </span>
+              </div>
+              <button
+                onClick={() => deleteTeamMutation.mutate({ id: team.id })}
+                disabled={deleteTeamMutation.isPending}
+                className="rounded-md bg-red-600/30 px-3 py-1 text-xs font-medium text-white transition hover:bg-red-600/50 disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="mb-6 text-gray-300">No teams yet.</p>
+      )}
+
+      {/* New Team */}
+      <form onSubmit={handleSubmit} className="mb-6 flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New team name"
+          className="w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+          required
+        />
+        <input
+          type="color"
+          value={color}
+          onChange={(e) => setColor(e.target.value)}
+          aria-label="Team colour"
+          className="h-10 w-12 flex-shrink-0 cursor-pointer rounded-md bg-white/20"
+        />
+        <button
+          type="submit"
+          disabled={createTeamMutation.isPending}
+          className="rounded-md bg-purple-600 px-4 py-2 font-medium transition-colors hover:bg-purple-700 disabled:cursor-not-allowed disabled:bg-purple-400"
+        >
+          Add
+        </button>
+      </form>
+
+      {/* Assignments */}
+      {teams && teams.length > 0 && (
+        <div>
+          <p className="mb-2 text-sm font-medium text-gray-200">Members</p>
+          <div className="max-h-64 space-y-2 overflow-y-auto">
+            {participants?.map((participant) => (
+              <label
+                key={participant.id}
+                className="flex items-center justify-between gap-3 text-sm text-gray-200"
+              >
+                <span className="truncate">
+                  {participant.name ?? "Anonymous"}
+                </span>
+                <select
+                  value={participant.teamId ?? ""}
+                  onChange={(e) =>
+                    assignMutation.mutate({
+                      participantId: participant.id,
+                      teamId: e.target.value || null,
+                    })
+                  }
+                  className="w-40 rounded-md bg-white/20 px-2 py-1 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                >
+                  <option value="">No team</option>
+                  {teams.map((team) => (
+                    <option key={team.id} value={team.id}>
+                      {team.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Success/Error Message */}
+      {message && (
+        <div
+          className={`mt-4 rounded p-3 ${
+            message.type === "success" ? "bg-green-500/30" : "bg-red-500/30"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+};
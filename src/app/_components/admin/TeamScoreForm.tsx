@@ -0,0 +1,156 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "~/trpc/react";
+
+/**
+ * Form for admins to enter team points for events scored per team rather than from member scores
+ */
+export const TeamScoreForm = () => {
+  const [eventId, setEventId] = useState("");
+  // Points entered for each team, keyed by team id; blank clears the team's score
+  const [points, setPoints] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<{
+    text: string;
+    type: "success" | "error";
+  } | null>(null);
+  const utils = api.useUtils();
+
+  const { data: events } = api.event.getAll.useQuery();
+  const { data: teams } = api.team.getAll.useQuery();
+
+  const directEvents = events?.filter(
+    (event) => event.teamScoring === "direct",
+  );
+
+  const { data: teamScores } = api.team.getEventScores.useQuery(
+    { eventId },
+    { enabled: !!eventId },
+  );
+
+  const setTeamScoreMutation = api.team.setTeamScore.useMutation();
+
+  const handleEventChange = (id: string) => {
+    setEventId(id);
+    setPoints({});
+    setMessage(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+
+    try {
+      for (const [teamId, value] of Object.entries(points)) {
+        await setTeamScoreMutation.mutateAsync({
+          teamId,
+          eventId,
+          points: value === "" ? null : parseInt(value, 10),
+        });
+      }
+
+      setMessage({ text: "Team scores saved", type: "success" });
+      setPoints({});
+      void utils.team.getEventScores.invalidate({ eventId });
+      void utils.team.getLeaderboard.invalidate();
+    } catch (error) {
+      setMessage({
+        text:
+          error instanceof Error ? error.message : "Failed to save team scores",
+        type: "error",
+      });
+    }
+  };
+
+  // Nothing to enter until there are teams and an event scored per team
+  if (!teams?.length || !directEvents?.length) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-lg bg-white/10 p-6 shadow-md backdrop-blur-sm">
+      <h2 className="mb-4 text-2xl font-bold text-white">Team Scores</h2>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label
+            htmlFor="team-score-event"
+            className="mb-1 block text-sm font-medium text-gray-200"
+          >
+            Event
+          </label>
+          <select
+            id="team-score-event"
+            value={eventId}
+            onChange={(e) => handleEventChange(e.target.value)}
+            className="w-full rounded-md bg-white/20 px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+            required
+          >
+            <option value="" disabled>
+              Select an event
+            </option>
+            {directEvents.map((event) => (
+              <option key={event.id} value={event.id}>
+                {event.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {eventId && (
+          <div className="space-y-2">
+            {teams.map((team) => {
+              const saved = teamScores?.find(
+                (score) => score.teamId === team.id,
+              );
+
+              return (
+                <label
+                  key={team.id}
+                  className="flex items-center justify-between gap-3 text-sm text-gray-200"
+                >
+                  <span className="truncate">{team.name}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={points[team.id] ?? saved?.points ?? ""}
+                    onChange={(e) =>
+                      setPoints((current) => ({
+                        ...current,
+                        [team.id]: e.target.value,
+                      }))
+                    }
+                    className="w-24 rounded-md bg-white/20 px-3 py-1 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                  />
+                </label>
+              );
+            })}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={!eventId || setTeamScoreMutation.isPending}
+          className={`w-full rounded-md px-4 py-2 font-medium transition-colors ${
+            !eventId || setTeamScoreMutation.isPending
+              ? "cursor-not-allowed bg-purple-400"
+              : "bg-purple-600 hover:bg-purple-700"
+          }`}
+        >
+          {setTeamScoreMutation.isPending ? "Saving..." : "Save Team Scores"}
+        </button>
+      </form>
+
+      {/* Success/Error Message */}
+      {message && (
+        <div
+          className={`mt-4 rounded p-3 ${
+            message.type === "success" ? "bg-green-500/30" : "bg-red-500/30"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,47 +1,138 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { api } from "~/trpc/react";
 import { createBrowserClient } from "~/lib/supabase/client";
-import { MessageList } from "./MessageList";
+import { MessageList, type ChatMessage } from "./MessageList";
 import { MessageInput } from "./MessageInput";
-import type { User } from "@supabase/supabase-js";
-
-// Define the Message interface
-interface Message {
-  id: string;
-  content: string;
-  createdAt: Date;
-  participant: {
-    id: string;
-    name: string | null;
-    avatarUrl: string | null;
-  };
-}
+import { GLOBAL_CHAT_CHANNEL } from "~/lib/chat";
 
 interface ChatBoxProps {
-  user: User | null;
+  isSignedIn: boolean;
+  participantId?: string | null; // The signed-in participant, who can edit and delete their own messages
+  isAdmin?: boolean; // Admins can delete anyone's messages
+  channel?: string; // See src/lib/chat.ts; defaults to the global chat
+  title?: string;
+  isCompact?: boolean; // Shorter, for embedding in e.g. a game lobby
 }
 
-export const ChatBox = ({ user }: ChatBoxProps) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+/**
+ * Swap an edited or deleted message into the chat in place
+ */
+const replaceMessage = (messages: ChatMessage[], updated: ChatMessage) =>
+  messages.map((message) => (message.id === updated.id ? updated : message));
+
+export const ChatBox = ({
+  isSignedIn,
+  participantId,
+  isAdmin,
+  channel = GLOBAL_CHAT_CHANNEL,
+  title = "Olympic Chat",
+  isCompact = false,
+}: ChatBoxProps) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Ids of the messages on screen, so realtime events for other channels can be ignored
+  const messageIdsRef = useRef(new Set<string>());
+  // Feedback from sending or reporting, e.g. when the sender is muted
+  const [notice, setNotice] = useState<{
+    text: string;
+    type: "success" | "error";
+  } | null>(null);
+  // Message the next one sent will reply to
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
   const [supabase] = useState(() => createBrowserClient());
 
   // Query to fetch initial messages
   const { data, isLoading } = api.message.getMessages.useQuery({
     limit: 50,
+    channel,
   });
 
   // Get tRPC context for invalidation
   const utils = api.useContext();
 
+  const { data: unreadMentionCount } =
+    api.message.getUnreadMentionCount.useQuery(undefined, {
+      enabled: isSignedIn,
+    });
+
+  const markMentionsReadMutation = api.message.markMentionsRead.useMutation({
+    onSuccess: () => {
+      void utils.message.getUnreadMentionCount.invalidate();
+    },
+  });
+
   // Mutation to send a message
   const sendMessageMutation = api.message.sendMessage.useMutation({
     onSuccess: (newMessage) => {
       // Optimistically add the new message to the UI
       // This will make the UI update immediately without waiting for the real-time update
       setMessages((prevMessages) => [...prevMessages, newMessage]);
+      setReplyingTo(null);
+      setNotice(null);
     },
+    onError: (error) => setNotice({ text: error.message, type: "error" }),
+  });
+
+  const editMessageMutation = api.message.editMessage.useMutation({
+    onSuccess: (updatedMessage) => {
+      setMessages((prevMessages) =>
+        replaceMessage(prevMessages, updatedMessage),
+      );
+      setNotice(null);
+    },
+    onError: (error) => setNotice({ text: error.message, type: "error" }),
+  });
+
+  const deleteMessageMutation = api.message.deleteMessage.useMutation({
+    onSuccess: (_data, { messageId }) => {
+      setMessages((prevMessages) =>
+        prevMessages.map((message) =>
+          message.id === messageId
+            ? {
+                ...message,
+                content: "",
+                reactions: [],
+                deletedAt: new Date(),
+                deletedById: participantId ?? null,
+              }
+            : message,
+        ),
+      );
+      setNotice(null);
+    },
+    onError: (error) => setNotice({ text: error.message, type: "error" }),
+  });
+
+  // Reload a single message in place, e.g. after an edit or a change to its reactions
+  const refreshMessage = useCallback(
+    (messageId: string) => {
+      void utils.message.getMessage
+        .fetch({ messageId }, { staleTime: 0 })
+        .then((updatedMessage) => {
+          setMessages((prevMessages) =>
+            replaceMessage(prevMessages, updatedMessage),
+          );
+        })
+        .catch((error) => {
+          console.error("Error refreshing message:", error);
+        });
+    },
+    [utils],
+  );
+
+  const toggleReactionMutation = api.message.toggleReaction.useMutation({
+    onSuccess: (_data, { messageId }) => refreshMessage(messageId),
+    onError: (error) => setNotice({ text: error.message, type: "error" }),
+  });
+
+  const reportMessageMutation = api.message.reportMessage.useMutation({
+    onSuccess: () =>
+      setNotice({
+        text: "Thanks, a moderator will take a look",
+        type: "success",
+      }),
+    onError: (error) => setNotice({ text: error.message, type: "error" }),
   });
 
   // Set up initial messages when data loads
@@ -51,73 +142,207 @@ export const ChatBox = ({ user }: ChatBoxProps) => {
     }
   }, [data]);
 
-  // Set up real-time subscription
+  useEffect(() => {
+    messageIdsRef.current = new Set(messages.map((message) => message.id));
+  }, [messages]);
+
+  // Set up real-time subscription, limited to this chat's channel
   useEffect(() => {
     if (!supabase) return;
 
-    const channel = supabase.channel("public:messages").on(
-      "postgres_changes",
-      {
-        event: "INSERT",
-        schema: "public",
-        table: "messages",
-      },
-      (payload) => {
-        // Get the new message ID from the payload
-        const newMessageId = payload.new.id as string;
-
-        // Fetch just the new message with participant data
-        void utils.message.getMessage
-          .fetch({
-            messageId: newMessageId,
-          })
-          .then((newMessageData) => {
-            if (newMessageData) {
-              // Add the new message to the existing messages array
-              setMessages((prevMessages) => [...prevMessages, newMessageData]);
-            }
-          })
-          .catch((error) => {
-            console.error("Error handling new message:", error);
-
-            // Fallback: fetch all messages if there's an error
-            void utils.message.getMessages
-              .fetch({ limit: 50 })
-              .then((result) => {
-                if (result?.messages) {
-                  setMessages(result.messages);
-                }
-              });
-          });
-      },
-    );
-
-    void channel.subscribe();
+    const realtimeChannel = supabase
+      .channel(`public:messages:${channel}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "messages",
+          filter: `channel=eq.${channel}`,
+        },
+        (payload) => {
+          // Get the new message ID from the payload
+          const newMessageId = payload.new.id as string;
+
+          // The new message may mention the current user
+          void utils.message.getUnreadMentionCount.invalidate();
+
+          // Fetch just the new message with participant data
+          void utils.message.getMessage
+            .fetch({
+              messageId: newMessageId,
+            })
+            .then((newMessageData) => {
+              if (newMessageData) {
+                // Add the new message to the existing messages array
+                setMessages((prevMessages) => [
+                  ...prevMessages,
+                  newMessageData,
+                ]);
+              }
+            })
+            .catch((error) => {
+              console.error("Error handling new message:", error);
+
+              // Fallback: fetch all messages if there's an error
+              void utils.message.getMessages
+                .fetch({ limit: 50, channel })
+                .then((result) => {
+                  if (result?.messages) {
+                    setMessages(result.messages);
+                  }
+                });
+            });
+        },
+      )
+      // Edits and deletions are refetched so the chat shows the new text or a tombstone;
+      // messages hidden by a moderator drop out of the chat
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "messages",
+          filter: `channel=eq.${channel}`,
+        },
+        (payload) => {
+          const updatedId = payload.new.id as string;
+
+          if (payload.new.hidden_at) {
+            setMessages((prevMessages) =>
+              prevMessages.filter((message) => message.id !== updatedId),
+            );
+            return;
+          }
+
+          refreshMessage(updatedId);
+          void utils.message.getUnreadMentionCount.invalidate();
+        },
+      )
+      // Reactions added or removed by anyone update the message's counts. Reactions
+      // aren't stored by channel, so only messages in this chat are refetched
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "message_reactions",
+        },
+        (payload) => {
+          const reaction =
+            payload.eventType === "DELETE" ? payload.old : payload.new;
+          const messageId = reaction.message_id as string | undefined;
+
+          if (messageId && messageIdsRef.current.has(messageId)) {
+            refreshMessage(messageId);
+          }
+        },
+      )
+      // Deletes can't be filtered by channel, but removing an id that isn't here is harmless
+      .on(
+        "postgres_changes",
+        {
+          event: "DELETE",
+          schema: "public",
+          table: "messages",
+        },
+        (payload) => {
+          const deletedId = payload.old.id as string | undefined;
+          setMessages((prevMessages) =>
+            prevMessages.filter((message) => message.id !== deletedId),
+          );
+        },
+      );
+
+    void realtimeChannel.subscribe();
 
     return () => {
-      void supabase.removeChannel(channel);
+      void supabase.removeChannel(realtimeChannel);
     };
-  }, [supabase, utils]);
+  }, [supabase, utils, refreshMessage, channel]);
 
   const handleSendMessage = (content: string) => {
-    if (!user) return;
+    if (!isSignedIn) return;
 
     void sendMessageMutation.mutate({
       content,
+      replyToId: replyingTo?.id,
+      channel,
     });
   };
 
   return (
-    <div className="border-greek-gold/30 flex h-[500px] flex-col rounded-lg border bg-white/10 p-4 shadow-md">
-      <h2 className="mb-4 flex items-center text-2xl font-bold">
-        <span className="mr-2">💬</span> Olympic Chat
+    <div
+      className={`border-greek-gold/30 flex flex-col rounded-lg border bg-white/10 p-4 shadow-md ${
+        isCompact ? "h-80" : "h-[500px]"
+      }`}
+    >
+      <h2
+        className={`mb-4 flex items-center font-bold ${
+          isCompact ? "text-lg" : "text-2xl"
+        }`}
+      >
+        <span className="mr-2">💬</span> {title}
+        {!!unreadMentionCount && (
+          <button
+            onClick={() => markMentionsReadMutation.mutate()}
+            title="You've been mentioned. Click to mark as read"
+            className="ml-auto rounded-full bg-red-500 px-2 py-0.5 text-xs font-semibold text-white transition hover:bg-red-600"
+          >
+            @ {unreadMentionCount}
+          </button>
+        )}
       </h2>
 
       <div className="flex-1 overflow-y-auto">
-        <MessageList messages={messages} isLoading={isLoading} />
+        <MessageList
+          messages={messages}
+          isLoading={isLoading}
+          currentParticipantId={isSignedIn ? participantId : null}
+          isAdmin={isSignedIn && !!isAdmin}
+          onReportMessage={
+            isSignedIn
+              ? (messageId, reason) =>
+                  reportMessageMutation.mutate({ messageId, reason })
+              : undefined
+          }
+          onEditMessage={(messageId, content) =>
+            editMessageMutation.mutate({ messageId, content })
+          }
+          onDeleteMessage={(messageId) =>
+            deleteMessageMutation.mutate({ messageId })
+          }
+          onToggleReaction={
+            isSignedIn
+              ? (messageId, emoji) =>
+                  toggleReactionMutation.mutate({ messageId, emoji })
+              : undefined
+          }
+          onReply={isSignedIn ? setReplyingTo : undefined}
+        />
       </div>
 
-      <MessageInput onSendMessage={handleSendMessage} isDisabled={!user} />
+      {notice && (
+        <p
+          className={`mt-2 text-sm ${
+            notice.type === "success" ? "text-green-400" : "text-red-400"
+          }`}
+        >
+          {notice.text}
+        </p>
+      )}
+
+      <MessageInput
+        onSendMessage={handleSendMessage}
+        isDisabled={!isSignedIn}
+        replyingTo={
+          replyingTo && {
+            participantName: replyingTo.participant.name,
+            content: replyingTo.content,
+          }
+        }
+        onCancelReply={() => setReplyingTo(null)}
+      />
     </div>
   );
 };
@@ -1,18 +1,62 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
+import { api } from "~/trpc/react";
+
+// Most names offered at once while typing an @mention
+const MAX_MENTION_SUGGESTIONS = 5;
 
 interface MessageInputProps {
   onSendMessage: (content: string) => void;
   isDisabled: boolean;
+  replyingTo?: {
+    participantName: string | null;
+    content: string;
+  } | null;
+  onCancelReply?: () => void;
 }
 
+/**
+ * The "@partial name" being typed just before the cursor, if any
+ */
+const getMentionQuery = (text: string, cursor: number) => {
+  const match = /(?:^|\s)@([^@\n]{0,30})$/.exec(text.slice(0, cursor));
+  if (!match) return null;
+
+  const query = match[1] ?? "";
+  return { query, start: cursor - query.length - 1 };
+};
+
 export const MessageInput = ({
   onSendMessage,
   isDisabled,
+  replyingTo,
+  onCancelReply,
 }: MessageInputProps) => {
   const [message, setMessage] = useState("");
   const [isTyping, setIsTyping] = useState(false);
+  // @mention being typed, and the highlighted suggestion
+  const [mention, setMention] = useState<{
+    query: string;
+    start: number;
+  } | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const { data: participants } = api.participant.getAll.useQuery(undefined, {
+    enabled: !isDisabled,
+  });
+
+  const suggestions = mention
+    ? (participants ?? [])
+        .filter(
+          (participant) =>
+            participant.name
+              ?.toLowerCase()
+              .includes(mention.query.trim().toLowerCase()) ?? false,
+        )
+        .slice(0, MAX_MENTION_SUGGESTIONS)
+    : [];
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -22,25 +66,112 @@ export const MessageInput = ({
     onSendMessage(message.trim());
     setMessage("");
     setIsTyping(false);
+    setMention(null);
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setMessage(e.target.value);
     setIsTyping(e.target.value.trim() !== "");
+    setMention(
+      getMentionQuery(
+        e.target.value,
+        e.target.selectionStart ?? e.target.value.length,
+      ),
+    );
+    setSelectedIndex(0);
+  };
+
+  // Swap the partial "@name" for the chosen participant's full name
+  const insertMention = (name: string) => {
+    if (!mention) return;
+
+    const end = mention.start + 1 + mention.query.length;
+    const before = `${message.slice(0, mention.start)}@${name} `;
+    setMessage(before + message.slice(end));
+    setMention(null);
+
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestions.length) return;
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setSelectedIndex(
+        (current) => (current + step + suggestions.length) % suggestions.length,
+      );
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      const selected = suggestions[selectedIndex];
+      if (selected?.name) {
+        e.preventDefault();
+        insertMention(selected.name);
+      }
+    } else if (e.key === "Escape") {
+      setMention(null);
+    }
   };
 
   return (
     <div className="mt-4 border-t border-white/10 pt-4">
-      <form onSubmit={handleSubmit} className="flex items-center">
+      {replyingTo && (
+        <div className="mb-2 flex items-center justify-between rounded-md border-l-2 border-white/30 bg-white/5 px-3 py-1 text-xs text-gray-300">
+          <span className="truncate">
+            Replying to{" "}
+            <span className="font-semibold">
+              {replyingTo.participantName ?? "Anonymous"}
+            </span>
+            : {replyingTo.content}
+          </span>
+          <button
+            type="button"
+            onClick={onCancelReply}
+            className="ml-2 text-gray-400 hover:text-white"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+      <form onSubmit={handleSubmit} className="relative flex items-center">
+        {suggestions.length > 0 && (
+          <ul className="absolute bottom-full left-0 mb-1 w-64 overflow-hidden rounded-md border border-white/20 bg-gray-900/95 text-sm shadow-lg">
+            {suggestions.map((participant, index) => (
+              <li key={participant.id}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => {
+                    // Keep focus in the input
+                    e.preventDefault();
+                    insertMention(participant.name ?? "");
+                  }}
+                  className={`w-full px-3 py-2 text-left text-white ${
+                    index === selectedIndex
+                      ? "bg-white/20"
+                      : "hover:bg-white/10"
+                  }`}
+                >
+                  @{participant.name}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
         <input
+          ref={inputRef}
           type="text"
           value={message}
           onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setMention(null)}
           disabled={isDisabled}
           placeholder={
             isDisabled
               ? "Sign in to send messages"
-              : "Type your message here..."
+              : "Type your message here... (@ to mention)"
           }
           className="focus:border-greek-gold/50 focus:ring-greek-gold/50 flex-1 rounded-l-md border border-white/20 bg-white/5 px-4 py-2 text-white placeholder-gray-400 focus:ring-1 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
         />
@@ -1,26 +1,68 @@
 "use client";
 
 import Image from "next/image";
-import { useEffect, useRef } from "react";
-
-interface Message {
-  id: string;
-  content: string;
-  createdAt: Date;
-  participant: {
-    id: string;
-    name: string | null;
-    avatarUrl: string | null;
-  };
-}
+import { useEffect, useRef, useState } from "react";
+import {
+  REACTION_EMOJIS,
+  isWithinEditWindow,
+  splitMentions,
+  type ReactionEmoji,
+} from "~/lib/chat";
+import type { RouterOutputs } from "~/trpc/react";
+
+export type ChatMessage = RouterOutputs["message"]["getMessage"];
 
 interface MessageListProps {
-  messages: Message[];
+  messages: ChatMessage[];
   isLoading: boolean;
+  currentParticipantId?: string | null;
+  isAdmin?: boolean;
+  onReportMessage?: (messageId: string, reason: string) => void; // Omitted when signed out
+  onEditMessage?: (messageId: string, content: string) => void;
+  onDeleteMessage?: (messageId: string) => void;
+  onToggleReaction?: (messageId: string, emoji: ReactionEmoji) => void; // Omitted when signed out
+  onReply?: (message: ChatMessage) => void; // Omitted when signed out
 }
 
-export const MessageList = ({ messages, isLoading }: MessageListProps) => {
+export const MessageList = ({
+  messages,
+  isLoading,
+  currentParticipantId,
+  isAdmin,
+  onReportMessage,
+  onEditMessage,
+  onDeleteMessage,
+  onToggleReaction,
+  onReply,
+}: MessageListProps) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Own message currently being edited, and its new text
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState("");
+  // Message whose emoji picker is open
+  const [pickerId, setPickerId] = useState<string | null>(null);
+  // Message currently being reported, and the reason typed so far
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [reportReason, setReportReason] = useState("");
+
+  const handleReportSubmit = (e: React.FormEvent, messageId: string) => {
+    e.preventDefault();
+
+    if (!onReportMessage || reportReason.trim() === "") return;
+
+    onReportMessage(messageId, reportReason.trim());
+    setReportingId(null);
+    setReportReason("");
+  };
+
+  const handleEditSubmit = (e: React.FormEvent, messageId: string) => {
+    e.preventDefault();
+
+    if (!onEditMessage || editContent.trim() === "") return;
+
+    onEditMessage(messageId, editContent.trim());
+    setEditingId(null);
+  };
 
   // Scroll to bottom when messages change
   useEffect(() => {
@@ -55,6 +97,28 @@ export const MessageList = ({ messages, isLoading }: MessageListProps) => {
           minute: "2-digit",
         });
 
+        const isOwnMessage =
+          !!currentParticipantId &&
+          message.participant.id === currentParticipantId;
+        const isDeleted = !!message.deletedAt;
+        const canEdit =
+          isOwnMessage &&
+          !isDeleted &&
+          !!onEditMessage &&
+          isWithinEditWindow(message.createdAt);
+        const canDelete =
+          (isOwnMessage || !!isAdmin) && !isDeleted && !!onDeleteMessage;
+        const mentionsMe =
+          !!currentParticipantId &&
+          message.mentions.some(
+            (mentioned) => mentioned.id === currentParticipantId,
+          );
+        const canReport =
+          !isOwnMessage &&
+          !isDeleted &&
+          !!onReportMessage &&
+          reportingId !== message.id;
+
         return (
           <div key={message.id} className="flex items-start">
             <div className="mr-3 flex-shrink-0">
@@ -70,16 +134,218 @@ export const MessageList = ({ messages, isLoading }: MessageListProps) => {
                 }}
               />
             </div>
-            <div className="flex-1">
+            <div className="group flex-1">
               <div className="flex items-baseline">
                 <span className="mr-2 font-semibold text-white">
                   {message.participant.name ?? "Anonymous"}
                 </span>
-                <span className="text-xs text-gray-400">{timestamp}</span>
-              </div>
-              <div className="mt-1 rounded-md bg-white/10 p-3 text-sm">
-                {message.content}
+                <span className="text-xs text-gray-400">
+                  {timestamp}
+                  {message.editedAt && !isDeleted && " (edited)"}
+                </span>
+                <span className="ml-auto flex gap-2 text-xs text-gray-400 opacity-0 transition group-hover:opacity-100">
+                  {onReply && !isDeleted && (
+                    <button
+                      onClick={() => onReply(message)}
+                      className="hover:text-white"
+                    >
+                      Reply
+                    </button>
+                  )}
+                  {canEdit && editingId !== message.id && (
+                    <button
+                      onClick={() => {
+                        setEditingId(message.id);
+                        setEditContent(message.content);
+                      }}
+                      className="hover:text-white"
+                    >
+                      Edit
+                    </button>
+                  )}
+                  {canDelete && (
+                    <button
+                      onClick={() => onDeleteMessage?.(message.id)}
+                      className="hover:text-red-400"
+                    >
+                      Delete
+                    </button>
+                  )}
+                  {canReport && (
+                    <button
+                      onClick={() => {
+                        setReportingId(message.id);
+                        setReportReason("");
+                      }}
+                      className="hover:text-red-400"
+                    >
+                      Report
+                    </button>
+                  )}
+                </span>
               </div>
+              {message.replyTo && !isDeleted && (
+                <div className="mt-1 truncate border-l-2 border-white/30 pl-2 text-xs text-gray-400">
+                  ↪{" "}
+                  <span className="font-semibold">
+                    {message.replyTo.participant.name ?? "Anonymous"}
+                  </span>
+                  :{" "}
+                  {message.replyTo.isRemoved ? (
+                    <span className="italic">message removed</span>
+                  ) : (
+                    message.replyTo.content
+                  )}
+                </div>
+              )}
+              {isDeleted ? (
+                <div className="mt-1 rounded-md border border-dashed border-white/10 p-3 text-sm text-gray-400 italic">
+                  {message.deletedById &&
+                  message.deletedById !== message.participant.id
+                    ? "Removed by a moderator"
+                    : "This message was deleted"}
+                </div>
+              ) : editingId === message.id ? (
+                <form
+                  onSubmit={(e) => handleEditSubmit(e, message.id)}
+                  className="mt-1 flex items-center gap-2"
+                >
+                  <input
+                    type="text"
+                    value={editContent}
+                    onChange={(e) => setEditContent(e.target.value)}
+                    maxLength={500}
+                    className="focus:ring-greek-gold/50 flex-1 rounded-md border border-white/20 bg-white/5 px-3 py-2 text-sm text-white focus:ring-1 focus:outline-none"
+                    autoFocus
+                  />
+                  <button
+                    type="submit"
+                    disabled={editContent.trim() === ""}
+                    className="bg-greek-blue hover:bg-greek-blue-light rounded-md px-3 py-1 text-xs font-medium text-white transition disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="text-xs text-gray-400 hover:text-white"
+                  >
+                    Cancel
+                  </button>
+                </form>
+              ) : (
+                <div
+                  className={`mt-1 rounded-md p-3 text-sm ${
+                    mentionsMe
+                      ? "bg-yellow-400/15 ring-1 ring-yellow-400/50"
+                      : "bg-white/10"
+                  }`}
+                >
+                  {splitMentions(
+                    message.content,
+                    message.mentions.map((mentioned) => mentioned.name ?? ""),
+                  ).map((part, index) =>
+                    part.isMention ? (
+                      <span
+                        key={index}
+                        className="font-semibold text-yellow-300"
+                      >
+                        {part.text}
+                      </span>
+                    ) : (
+                      part.text
+                    ),
+                  )}
+                </div>
+              )}
+              {!isDeleted &&
+                (message.reactions.length > 0 || onToggleReaction) && (
+                  <div className="mt-1 flex flex-wrap items-center gap-1">
+                    {message.reactions.map((reaction) => {
+                      const hasReacted = reaction.participants.some(
+                        (participant) =>
+                          participant.id === currentParticipantId,
+                      );
+
+                      return (
+                        <button
+                          key={reaction.emoji}
+                          onClick={() =>
+                            onToggleReaction?.(message.id, reaction.emoji)
+                          }
+                          disabled={!onToggleReaction}
+                          title={reaction.participants
+                            .map(
+                              (participant) => participant.name ?? "Anonymous",
+                            )
+                            .join(", ")}
+                          className={`rounded-full border px-2 py-0.5 text-xs transition disabled:cursor-default ${
+                            hasReacted
+                              ? "border-yellow-400/60 bg-yellow-400/20 text-white"
+                              : "border-white/10 bg-white/5 text-gray-300 hover:bg-white/10"
+                          }`}
+                        >
+                          {reaction.emoji} {reaction.count}
+                        </button>
+                      );
+                    })}
+                    {onToggleReaction &&
+                      (pickerId === message.id ? (
+                        <span className="flex gap-1 rounded-full border border-white/10 bg-white/5 px-2 py-0.5">
+                          {REACTION_EMOJIS.map((emoji) => (
+                            <button
+                              key={emoji}
+                              onClick={() => {
+                                onToggleReaction(message.id, emoji);
+                                setPickerId(null);
+                              }}
+                              className="text-sm transition hover:scale-125"
+                            >
+                              {emoji}
+                            </button>
+                          ))}
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => setPickerId(message.id)}
+                          title="Add reaction"
+                          className="rounded-full border border-white/10 px-2 py-0.5 text-xs text-gray-400 opacity-0 transition group-hover:opacity-100 hover:text-white"
+                        >
+                          +☺
+                        </button>
+                      ))}
+                  </div>
+                )}
+              {reportingId === message.id && (
+                <form
+                  onSubmit={(e) => handleReportSubmit(e, message.id)}
+                  className="mt-2 flex items-center gap-2"
+                >
+                  <input
+                    type="text"
+                    value={reportReason}
+                    onChange={(e) => setReportReason(e.target.value)}
+                    maxLength={500}
+                    placeholder="Why are you reporting this message?"
+                    className="flex-1 rounded-md border border-white/20 bg-white/5 px-3 py-1 text-sm text-white placeholder-gray-400 focus:ring-1 focus:ring-red-400/50 focus:outline-none"
+                    autoFocus
+                  />
+                  <button
+                    type="submit"
+                    disabled={reportReason.trim() === ""}
+                    className="rounded-md bg-red-600/60 px-3 py-1 text-xs font-medium text-white transition hover:bg-red-600/80 disabled:opacity-50"
+                  >
+                    Report
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setReportingId(null)}
+                    className="text-xs text-gray-400 hover:text-white"
+                  >
+                    Cancel
+                  </button>
+                </form>
+              )}
             </div>
           </div>
         );
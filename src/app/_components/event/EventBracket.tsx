@@ -0,0 +1,76 @@
+"use client";
+
+import { api } from "~/trpc/react";
+
+interface EventBracketProps {
+  eventId: string;
+}
+
+/**
+ * An event's rounds side by side, with each heat's line-up and results.
+ * Participants who went through to the next round are highlighted. Hidden for events without rounds.
+ */
+export const EventBracket = ({ eventId }: EventBracketProps) => {
+  const { data: rounds, isLoading } = api.round.getBracket.useQuery({
+    eventId,
+  });
+
+  if (isLoading || !rounds?.length) {
+    return null;
+  }
+
+  return (
+    <div className="border-greek-gold/30 mb-8 rounded-lg border bg-white/10 p-6 shadow-md">
+      <h2 className="mb-6 flex items-center text-2xl font-bold">
+        <span className="mr-2">🏁</span> Rounds
+      </h2>
+      <div className="flex gap-6 overflow-x-auto pb-2">
+        {rounds.map((round) => (
+          <div key={round.id} className="min-w-56 flex-shrink-0">
+            <h3 className="mb-1 text-lg font-semibold">{round.name}</h3>
+            <p className="mb-3 text-xs text-gray-400">
+              {round.isFinal
+                ? "Final"
+                : `Top ${round.advanceCount} of each heat go through`}
+              {round.status === "completed" ? " · Complete" : " · In progress"}
+            </p>
+            <div className="space-y-3">
+              {round.heats.map((heat) => (
+                <div
+                  key={heat.id}
+                  className="rounded-md border border-white/10 bg-white/5 p-3"
+                >
+                  <p className="mb-2 text-sm font-medium text-gray-200">
+                    {heat.name}
+                  </p>
+                  <ol className="space-y-1 text-sm">
+                    {heat.entries.map((entry) => (
+                      <li
+                        key={entry.id}
+                        className={`flex items-center justify-between rounded px-2 py-1 ${
+                          entry.advanced || (round.isFinal && entry.place === 1)
+                            ? "bg-green-500/20 font-semibold"
+                            : ""
+                        }`}
+                      >
+                        <span className="truncate">
+                          {entry.participant.name ?? "Anonymous"}
+                        </span>
+                        <span className="ml-2 text-xs text-gray-300">
+                          {entry.place
+                            ? `#${entry.place}`
+                            : `Lane ${entry.lane}`}
+                          {entry.advanced && " → Q"}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,20 @@
 "use client";
 
 import type { Event } from "@prisma/client";
+import { describeScoringScheme, parseScoringScheme } from "~/lib/scoring";
+import {
+  EVENT_STATUS_NAMES,
+  formatEventTimes,
+  parseEventStatus,
+} from "~/lib/events";
 
 interface EventHeaderProps {
   event: Event;
 }
 
 export const EventHeader = ({ event }: EventHeaderProps) => {
+  const times = formatEventTimes(event.startsAt, event.endsAt);
+
   return (
     <div className="flex flex-col">
       <h1 className="mb-2 text-3xl font-bold">{event.name}</h1>
@@ -17,10 +25,27 @@ export const EventHeader = ({ event }: EventHeaderProps) => {
         <div className="rounded-full bg-white/10 px-3 py-1 text-sm">
           <span className="mr-1">🏆</span> Event #{event.order ?? "N/A"}
         </div>
+        <div className="rounded-full bg-white/10 px-3 py-1 text-sm">
+          {EVENT_STATUS_NAMES[parseEventStatus(event.status)]}
+        </div>
+        {times && (
+          <div className="rounded-full bg-white/10 px-3 py-1 text-sm">
+            <span className="mr-1">🕒</span> {times}
+          </div>
+        )}
+        {event.location && (
+          <div className="rounded-full bg-white/10 px-3 py-1 text-sm">
+            <span className="mr-1">📍</span> {event.location}
+          </div>
+        )}
         <div className="rounded-full bg-white/10 px-3 py-1 text-sm">
           <span className="mr-1">🗓️</span> Created{" "}
           {new Date(event.createdAt).toLocaleDateString()}
         </div>
+        <div className="rounded-full bg-white/10 px-3 py-1 text-sm">
+          <span className="mr-1">🎯</span>{" "}
+          {describeScoringScheme(parseScoringScheme(event.scoringScheme))}
+        </div>
       </div>
     </div>
   );
@@ -5,14 +5,16 @@ import { useEffect, useState } from "react";
 interface GameCountdownProps {
   onComplete: () => void;
   startTime: Date;
+  countdownMs: number; // Full length of the countdown, for the progress bar
 }
 
 /**
- * A countdown animation that displays 3-2-1 before the game starts
+ * A countdown animation that counts down the seconds before the game starts
  */
 export const GameCountdown: React.FC<GameCountdownProps> = ({
   onComplete,
   startTime,
+  countdownMs,
 }) => {
   const [countdown, setCountdown] = useState<number | null>(null);
   const [timeRemaining, setTimeRemaining] = useState<number>(0);
@@ -49,7 +51,7 @@ export const GameCountdown: React.FC<GameCountdownProps> = ({
   // Calculate progress percentage for the progress bar
   const progressPercentage = Math.max(
     0,
-    Math.min(100, (timeRemaining / 3000) * 100),
+    Math.min(100, (timeRemaining / countdownMs) * 100),
   );
 
   return (
@@ -3,35 +3,86 @@
 import { useState } from "react";
 import Image from "next/image";
 import { api } from "~/trpc/react";
+import { MAX_PLAYERS_BOUNDS } from "~/lib/games";
+import { gameChatChannel } from "~/lib/chat";
+import { ChatBox } from "../chat/ChatBox";
 
 interface Participant {
   id: string;
   name?: string | null;
   email: string;
   avatarUrl?: string | null;
+  isReady: boolean;
+}
+
+interface LobbySettings {
+  isLocked: boolean;
+  maxPlayers: number | null;
+  requireReady: boolean;
 }
 
 interface GameLobbyProps {
   gameId: string;
   participants: Participant[];
-  isCreator: boolean;
+  participantId: string; // The current player
+  hostParticipantId: string | null;
+  isHost: boolean;
+  isPrivate: boolean;
+  joinCode: string | null; // Private games' code, only sent to the host
+  settings: LobbySettings;
   onStartGame: () => void;
 }
 
 /**
  * The waiting room for players to join before the game starts
+ * The host can kick players, lock the lobby, cap the player count and require a ready-check.
+ * Players can talk in the lobby chat while they wait
  */
 export const GameLobby: React.FC<GameLobbyProps> = ({
   gameId,
   participants,
-  isCreator,
+  participantId,
+  hostParticipantId,
+  isHost,
+  isPrivate,
+  joinCode,
+  settings,
   onStartGame,
 }) => {
   const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const utils = api.useUtils();
+
+  // Refresh the lobby straight away rather than waiting for Realtime or polling
+  const lobbyMutationOptions = {
+    onSuccess: () => {
+      setError(null);
+      void utils.game.getGame.invalidate({ gameId });
+    },
+    onError: (error: { message: string }) => setError(error.message),
+  };
+  const setReadyMutation = api.game.setReady.useMutation(lobbyMutationOptions);
+  const kickPlayerMutation =
+    api.game.kickPlayer.useMutation(lobbyMutationOptions);
+  const updateSettingsMutation =
+    api.game.updateLobbySettings.useMutation(lobbyMutationOptions);
+
+  const currentPlayer = participants.find((p) => p.id === participantId);
+  // The host starting the game counts as them being ready
+  const notReadyCount = participants.filter(
+    (p) => p.id !== hostParticipantId && !p.isReady,
+  ).length;
+  const canStart =
+    participants.length >= 1 && (!settings.requireReady || notReadyCount === 0);
+  // Private games can only be joined with their code, so their link carries it
   const gameUrl =
-    typeof window !== "undefined"
-      ? `${window.location.origin}/olympics?game=${gameId}`
-      : "";
+    typeof window === "undefined"
+      ? ""
+      : isPrivate
+        ? joinCode
+          ? `${window.location.origin}/olympics?code=${joinCode}`
+          : ""
+        : `${window.location.origin}/olympics?game=${gameId}`;
 
   // Copy game URL to clipboard
   const copyGameUrl = () => {
@@ -41,9 +92,9 @@ export const GameLobby: React.FC<GameLobbyProps> = ({
     });
   };
 
-  // Start the game (only available to the creator)
+  // Start the game (only available to the host)
   const handleStartGame = () => {
-    if (isCreator) {
+    if (isHost && canStart) {
       onStartGame();
     }
   };
@@ -57,29 +108,51 @@ export const GameLobby: React.FC<GameLobbyProps> = ({
 
       {/* Game URL sharing */}
       <div className="mb-6 w-full rounded-lg border border-gray-700 bg-gray-800 p-4">
-        <div className="mb-2 text-sm text-gray-400">
-          Share this link with friends:
-        </div>
-        <div className="flex items-center">
-          <input
-            type="text"
-            value={gameUrl}
-            readOnly
-            className="flex-1 rounded-l-md border border-gray-600 bg-gray-900 px-3 py-2 text-sm text-white"
-          />
-          <button
-            onClick={copyGameUrl}
-            className="rounded-r-md border border-l-0 border-gray-600 bg-gray-700 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-gray-600"
-          >
-            {copied ? "Copied!" : "Copy"}
-          </button>
-        </div>
+        {gameUrl ? (
+          <>
+            <div className="mb-2 text-sm text-gray-400">
+              Share this link with friends:
+            </div>
+            <div className="flex items-center">
+              <input
+                type="text"
+                value={gameUrl}
+                readOnly
+                className="flex-1 rounded-l-md border border-gray-600 bg-gray-900 px-3 py-2 text-sm text-white"
+              />
+              <button
+                onClick={copyGameUrl}
+                className="rounded-r-md border border-l-0 border-gray-600 bg-gray-700 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-gray-600"
+              >
+                {copied ? "Copied!" : "Copy"}
+              </button>
+            </div>
+          </>
+        ) : (
+          <div className="text-sm text-gray-400">
+            Private game. Ask the host for the join code to invite others.
+          </div>
+        )}
+        {joinCode && (
+          <div className="mt-3 text-sm text-gray-400">
+            Private game. Or join with the code{" "}
+            <span className="font-mono text-lg font-bold tracking-widest text-white">
+              {joinCode}
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Participants list */}
       <div className="mb-8 w-full rounded-lg border border-gray-700 bg-gray-800 p-4">
         <h3 className="mb-3 text-lg font-semibold text-white">
-          Players ({participants.length})
+          Players ({participants.length}
+          {settings.maxPlayers !== null && `/${settings.maxPlayers}`})
+          {settings.isLocked && (
+            <span className="ml-2 text-sm font-normal text-gray-400">
+              🔒 Locked
+            </span>
+          )}
         </h3>
         <ul className="space-y-2">
           {participants.map((participant) => (
@@ -102,30 +175,170 @@ export const GameLobby: React.FC<GameLobbyProps> = ({
                 </div>
                 <div className="text-xs text-gray-400">{participant.email}</div>
               </div>
-              {isCreator && participant.id === participants[0]?.id && (
+              {participant.id === hostParticipantId ? (
                 <div className="rounded-full bg-green-900 px-2 py-1 text-xs font-medium text-green-300">
                   Host
                 </div>
+              ) : (
+                settings.requireReady && (
+                  <div
+                    className={`rounded-full px-2 py-1 text-xs font-medium ${
+                      participant.isReady
+                        ? "bg-green-900 text-green-300"
+                        : "bg-gray-600 text-gray-300"
+                    }`}
+                  >
+                    {participant.isReady ? "Ready" : "Not ready"}
+                  </div>
+                )
+              )}
+              {isHost && participant.id !== participantId && (
+                <button
+                  onClick={() =>
+                    kickPlayerMutation.mutate({
+                      gameId,
+                      participantId: participant.id,
+                    })
+                  }
+                  disabled={kickPlayerMutation.isPending}
+                  className="ml-2 rounded-md bg-red-600/30 px-2 py-1 text-xs font-medium text-white transition hover:bg-red-600/50 disabled:opacity-50"
+                >
+                  Kick
+                </button>
               )}
             </li>
           ))}
         </ul>
       </div>
 
-      {/* Start game button (only for creator) */}
-      {isCreator ? (
-        <button
-          onClick={handleStartGame}
-          disabled={participants.length < 1}
-          className="w-full rounded-md bg-green-600 px-4 py-3 font-bold text-white transition-colors hover:bg-green-700 disabled:cursor-not-allowed disabled:opacity-50"
-        >
-          Start Game
-        </button>
-      ) : (
-        <div className="text-center text-gray-400">
-          Waiting for the host to start the game...
+      {/* Host controls */}
+      {isHost && (
+        <div className="mb-6 w-full rounded-lg border border-gray-700 bg-gray-800 p-4">
+          <h3 className="mb-3 text-lg font-semibold text-white">
+            Lobby Settings
+          </h3>
+          <div className="space-y-3 text-sm text-gray-300">
+            <label className="flex items-center justify-between">
+              Lock the lobby
+              <input
+                type="checkbox"
+                checked={settings.isLocked}
+                onChange={(e) =>
+                  updateSettingsMutation.mutate({
+                    gameId,
+                    isLocked: e.target.checked,
+                  })
+                }
+                disabled={updateSettingsMutation.isPending}
+              />
+            </label>
+            <label className="flex items-center justify-between">
+              Require everyone to be ready
+              <input
+                type="checkbox"
+                checked={settings.requireReady}
+                onChange={(e) =>
+                  updateSettingsMutation.mutate({
+                    gameId,
+                    requireReady: e.target.checked,
+                  })
+                }
+                disabled={updateSettingsMutation.isPending}
+              />
+            </label>
+            <label className="flex items-center justify-between">
+              Max players
+              <select
+                value={settings.maxPlayers ?? ""}
+                onChange={(e) =>
+                  updateSettingsMutation.mutate({
+                    gameId,
+                    maxPlayers: e.target.value ? Number(e.target.value) : null,
+                  })
+                }
+                disabled={updateSettingsMutation.isPending}
+                className="rounded-md border border-gray-600 bg-gray-900 px-2 py-1 text-white"
+              >
+                <option value="">No limit</option>
+                {Array.from(
+                  {
+                    length: MAX_PLAYERS_BOUNDS.max - MAX_PLAYERS_BOUNDS.min + 1,
+                  },
+                  (_, i) => MAX_PLAYERS_BOUNDS.min + i,
+                ).map((count) => (
+                  <option
+                    key={count}
+                    value={count}
+                    disabled={count < participants.length}
+                  >
+                    {count}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
         </div>
       )}
+
+      {/* Lobby chat, cleared once the game starts */}
+      <div className="mb-6 w-full">
+        <ChatBox
+          isSignedIn
+          participantId={participantId}
+          channel={gameChatChannel(gameId)}
+          title="Lobby Chat"
+          isCompact
+        />
+      </div>
+
+      {error && (
+        <div className="mb-4 w-full rounded bg-red-500/30 p-3 text-sm text-white">
+          {error}
+        </div>
+      )}
+
+      {/* Start game button (only for the host) */}
+      {isHost ? (
+        <>
+          <button
+            onClick={handleStartGame}
+            disabled={!canStart}
+            className="w-full rounded-md bg-green-600 px-4 py-3 font-bold text-white transition-colors hover:bg-green-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Start Game
+          </button>
+          {settings.requireReady && notReadyCount > 0 && (
+            <div className="mt-2 text-center text-sm text-gray-400">
+              Waiting for {notReadyCount} player
+              {notReadyCount === 1 ? "" : "s"} to get ready
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          {settings.requireReady && currentPlayer && (
+            <button
+              onClick={() =>
+                setReadyMutation.mutate({
+                  gameId,
+                  isReady: !currentPlayer.isReady,
+                })
+              }
+              disabled={setReadyMutation.isPending}
+              className={`mb-4 w-full rounded-md px-4 py-3 font-bold text-white transition-colors disabled:opacity-50 ${
+                currentPlayer.isReady
+                  ? "bg-gray-600 hover:bg-gray-500"
+                  : "bg-green-600 hover:bg-green-700"
+              }`}
+            >
+              {currentPlayer.isReady ? "Not Ready" : "I'm Ready"}
+            </button>
+          )}
+          <div className="text-center text-gray-400">
+            Waiting for the host to start the game...
+          </div>
+        </>
+      )}
     </div>
   );
 };
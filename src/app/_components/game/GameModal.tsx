@@ -2,7 +2,6 @@
 
 import { useState, useEffect, useRef } from "react";
 import { api } from "~/trpc/react";
-import type { SetStateAction } from "react";
 
 // Define types for game data
 // This interface should match the flattened structure returned by game.getGame
@@ -11,6 +10,11 @@ interface GameParticipantFromApi {
   gameId: string;
   participantId: string; // This is the actual Participant.id from Prisma
   tapCount: number;
+  tapHistogram: number[]; // Taps in each second of play
+  reactionMs: number | null; // Starting Gun reaction time
+  falseStart: boolean; // Starting Gun: tapped before the signal
+  isReady: boolean; // Lobby ready-check
+  result: number | null; // The game type's scoring metric
   rank?: number | null;
   scoreAwarded?: number | null;
   name?: string | null; // Direct property
@@ -21,19 +25,38 @@ interface GameParticipantFromApi {
 interface Game {
   id: string;
   status: "waiting" | "starting" | "in_progress" | "finished";
+  type: string; // Game type id, see ~/lib/games
+  durationMs: number; // How long play lasts
+  countdownMs: number; // Countdown before play begins
+  hostParticipantId: string | null; // Null for games created before lobbies had hosts
+  isLocked: boolean;
+  maxPlayers: number | null;
+  requireReady: boolean;
+  isKicked: boolean; // The host kicked us out of the lobby
+  isPrivate: boolean; // Hidden from the games list
+  joinCode: string | null; // Private games' code, sent to the host until the game starts
   startedAt?: string;
+  scoredAt?: Date | null; // Set once the server has awarded the results
   participants: GameParticipantFromApi[]; // Use the updated interface
   // Add other game properties as needed
 }
-import { GameSelection } from "./GameSelection"; // Added
+import { GameSelection, type NewGameOptions } from "./GameSelection"; // Added
 import { GameLobby } from "./GameLobby";
 import { GameCountdown } from "./GameCountdown";
-import { GamePlay } from "./GamePlay";
 import { GameResults } from "./GameResults";
+import { useGameChannel } from "./useGameChannel";
+import { getGameTypeComponents } from "./gameTypeComponents";
+import {
+  DEFAULT_COUNTDOWN_MS,
+  DEFAULT_GAME_TYPE,
+  getGameType,
+  isGameTypeId,
+} from "~/lib/games";
 
 interface GameModalProps {
   onClose: () => void;
   initialGameId?: string;
+  initialJoinCode?: string; // From a private game's invite link
   _userId: string; // Prefixed with underscore to indicate intentionally unused
   participantId: string;
 }
@@ -48,12 +71,14 @@ type GameState =
   | "results";
 
 /**
- * The main container for the "Row Harder!" game
- * Manages game state and transitions between different game phases
+ * The main container for the mini-games
+ * Manages game state and transitions between different game phases; the game type's
+ * play component (see ./gameTypeComponents) handles the playing phase itself
  */
 export const GameModal: React.FC<GameModalProps> = ({
   onClose,
   initialGameId,
+  initialJoinCode,
   _userId,
   participantId,
 }) => {
@@ -61,9 +86,13 @@ export const GameModal: React.FC<GameModalProps> = ({
     initialGameId ? "lobby" : "gameSelection",
   );
   const [gameId, setGameId] = useState<string | undefined>(initialGameId);
-  const [tapCount, setTapCount] = useState(0); // Renamed from _tapCount, will be passed to GamePlay
+  const [newGameOptions, setNewGameOptions] = useState<NewGameOptions>({
+    type: DEFAULT_GAME_TYPE,
+  }); // Settings for the next game we create
   const [startTime, setStartTime] = useState<Date | null>(null);
-  const [timeRemaining, setTimeRemaining] = useState(10000); // 10 seconds in ms
+  const [timeRemaining, setTimeRemaining] = useState(
+    getGameType(DEFAULT_GAME_TYPE).defaultDurationMs,
+  ); // ms
   const [isFinished, setIsFinished] = useState(false);
   const lastRefetchTimeRef = useRef<number>(0);
   const gameTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -78,6 +107,19 @@ export const GameModal: React.FC<GameModalProps> = ({
 
   // Join an existing game
   const joinGameMutation = api.game.joinGame.useMutation();
+  const [joinError, setJoinError] = useState<string | null>(null);
+
+  // Join a private game with its code
+  const joinGameByCodeMutation = api.game.joinGameByCode.useMutation({
+    onSuccess: (data: { id: string }) => {
+      setJoinError(null);
+      setGameId(data.id);
+      setGameState("lobby");
+    },
+    onError: (error) => {
+      setJoinError(error.message);
+    },
+  });
 
   // Start a game
   const startGameMutation = api.game.startGame.useMutation({
@@ -90,14 +132,15 @@ export const GameModal: React.FC<GameModalProps> = ({
     },
   });
 
-  // Update tap count
-  const updateTapCountMutation = api.game.updateTapCount.useMutation();
+  const utils = api.useUtils();
 
   // Finish a game
   const finishGameMutation = api.game.finishGame.useMutation({
     onSuccess: () => {
       setIsFinished(true);
       setGameState("results");
+      // Pick up the ranks and points the server has awarded
+      void utils.game.getGame.invalidate({ gameId });
     },
   });
 
@@ -121,6 +164,9 @@ export const GameModal: React.FC<GameModalProps> = ({
     refetch: () => Promise<unknown>;
   };
 
+  // Push game changes over Realtime; polling below only covers for it when it's not connected
+  const isLive = useGameChannel(gameId);
+
   // Create a new game on initial mount if no initialGameId is provided
   // This handles the scenario where the modal is opened to start a fresh game, not join one.
   // This useEffect is now primarily for the "creating" loading state after "Create New Game" is clicked.
@@ -131,9 +177,9 @@ export const GameModal: React.FC<GameModalProps> = ({
       createGameMutation.status !== "pending" &&
       !createGameMutation.isSuccess // Ensure it doesn't re-trigger if already successful from a previous action
     ) {
-      createGameMutation.mutate();
+      createGameMutation.mutate(newGameOptions);
     }
-  }, [gameState, gameId, createGameMutation]);
+  }, [gameState, gameId, createGameMutation, newGameOptions]);
 
   // Join game if initialGameId is provided - only once
   const joinedRef = useRef(false);
@@ -141,25 +187,57 @@ export const GameModal: React.FC<GameModalProps> = ({
   useEffect(() => {
     if (initialGameId && gameState === "lobby" && !joinedRef.current) {
       joinedRef.current = true;
-      joinGameMutation.mutate({ gameId: initialGameId });
+      joinGameMutation.mutate(
+        { gameId: initialGameId },
+        {
+          onError: (error) => {
+            // e.g. the invite link is for a game that has already started
+            setJoinError(error.message);
+            setGameId(undefined);
+            setGameState("gameSelection");
+          },
+        },
+      );
     }
   }, [initialGameId, gameState, joinGameMutation]);
 
+  // Join a private game if its invite link was followed - only once
+  const joinedByCodeRef = useRef(false);
+
+  useEffect(() => {
+    if (initialJoinCode && !initialGameId && !joinedByCodeRef.current) {
+      joinedByCodeRef.current = true;
+      joinGameByCodeMutation.mutate({ code: initialJoinCode });
+    }
+  }, [initialJoinCode, initialGameId, joinGameByCodeMutation]);
+
   // Handle countdown completion
   const handleCountdownComplete = () => {
     // Client-side countdown is done.
     // Transition to "synchronizing" state and wait for server to confirm game is "in_progress".
     setGameState("synchronizing");
+    void refetchGame(); // Fetching the game applies the due transition on the server
   };
 
-  // Handle tap count update (called periodically by GamePlay)
-  const handleUpdateTapCount = (currentTaps: number) => {
-    // Only send updates if the game is actively playing on the client and not yet marked as finished.
-    if (gameId && gameState === "playing" && !isFinished) {
-      updateTapCountMutation.mutate({
-        gameId,
-        tapCount: currentTaps,
-      });
+  // Handle the play component having sent the player's results
+  const handlePlayFinished = () => {
+    if (
+      gameId &&
+      finishGameMutation.status !== "pending" &&
+      finishGameMutation.status !== "success"
+    ) {
+      finishGameMutation.mutate(
+        { gameId },
+        {
+          onSuccess: () => {
+            setGameState("results"); // Transition to results after game is successfully finished
+          },
+          onError: () => {
+            // If finishing game fails, still go to results to show last known state or error
+            setGameState("results");
+          },
+        },
+      );
     }
   };
 
@@ -179,31 +257,41 @@ export const GameModal: React.FC<GameModalProps> = ({
       { gameId: selectedGameId },
       {
         onSuccess: () => {
+          setJoinError(null);
           setGameState("lobby");
         },
         onError: (error) => {
           // Handle potential errors, e.g., game no longer available
           console.error("Failed to join game:", error);
+          setJoinError(error.message);
+          setGameId(undefined);
           setGameState("gameSelection"); // Go back to selection on error
-          // Optionally, display an error message to the user
         },
       },
     );
   };
 
+  // Handle joining a private game with its code from the selection screen
+  const handleJoinWithCode = (code: string) => {
+    if (joinGameByCodeMutation.status !== "pending") {
+      joinGameByCodeMutation.mutate({ code });
+    }
+  };
+
   // Handle creating a new game from the selection screen
-  const handleCreateNewGame = () => {
+  const handleCreateNewGame = (options: NewGameOptions) => {
     // Reset relevant states before creating a new game
     setGameId(undefined);
     createGameMutation.reset();
     joinGameMutation.reset();
     startGameMutation.reset();
-    updateTapCountMutation.reset();
     finishGameMutation.reset();
 
-    setTapCount(0);
+    setNewGameOptions(options);
     setStartTime(null);
-    setTimeRemaining(10000);
+    setTimeRemaining(
+      options.durationMs ?? getGameType(options.type).defaultDurationMs,
+    );
     setIsFinished(false);
     joinedRef.current = false;
     lastRefetchTimeRef.current = 0;
@@ -225,13 +313,26 @@ export const GameModal: React.FC<GameModalProps> = ({
     createGameMutation.reset();
     joinGameMutation.reset();
     startGameMutation.reset();
-    updateTapCountMutation.reset();
     finishGameMutation.reset();
 
+    // Play the same kind of game again, with the same settings
+    const replayOptions: NewGameOptions =
+      gameData && isGameTypeId(gameData.type)
+        ? {
+            type: gameData.type,
+            durationMs: gameData.durationMs,
+            countdownMs: gameData.countdownMs,
+            isPrivate: gameData.isPrivate,
+          }
+        : newGameOptions;
+    setNewGameOptions(replayOptions);
+
     setGameState("creating");
-    setTapCount(0);
     setStartTime(null);
-    setTimeRemaining(10000);
+    setTimeRemaining(
+      replayOptions.durationMs ??
+        getGameType(replayOptions.type).defaultDurationMs,
+    );
     setIsFinished(false);
     joinedRef.current = false;
     lastRefetchTimeRef.current = 0;
@@ -244,13 +345,27 @@ export const GameModal: React.FC<GameModalProps> = ({
     // "Play Again" always means creating a brand new game.
     // The existing createGameMutation.mutate() call will set gameId and transition to lobby on success.
     if (createGameMutation.status !== "pending") {
-      createGameMutation.mutate(); // onSuccess will set gameId and setGameState("lobby")
+      createGameMutation.mutate(replayOptions); // onSuccess will set gameId and setGameState("lobby")
     }
   };
 
-  // Check if current user is the game creator
-  const isCreator =
-    gameData?.participants?.[0]?.participantId === participantId;
+  // Check if current user is the game's host (the first player, for games without one)
+  const isHost = gameData?.hostParticipantId
+    ? gameData.hostParticipantId === participantId
+    : gameData?.participants?.[0]?.participantId === participantId;
+
+  // The game type being played, or about to be created
+  const gameType = gameData?.type ?? newGameOptions.type;
+  const gameTypeDefinition = getGameType(gameType);
+  const durationMs =
+    gameData?.durationMs ??
+    newGameOptions.durationMs ??
+    gameTypeDefinition.defaultDurationMs;
+  // When play began by the server's clock, which decides when the server stops taking taps
+  const playStartedAt = gameData?.startedAt
+    ? new Date(gameData.startedAt).getTime()
+    : null;
+  const { Play: PlayComponent } = getGameTypeComponents(gameType);
 
   // Render different content based on game state
   const renderContent = () => {
@@ -268,7 +383,9 @@ export const GameModal: React.FC<GameModalProps> = ({
         return (
           <GameSelection
             onJoinGame={handleJoinSelectedGame}
+            onJoinWithCode={handleJoinWithCode}
             onCreateGame={handleCreateNewGame}
+            joinError={joinError}
           />
         );
       case "creating":
@@ -289,11 +406,25 @@ export const GameModal: React.FC<GameModalProps> = ({
                     name: gp.name,
                     email: gp.email,
                     avatarUrl: gp.avatarUrl,
+                    isReady: gp.isReady,
                     // tapCount is not used by GameLobby directly
                   }))
                 : []
             }
-            isCreator={isCreator}
+            participantId={participantId}
+            hostParticipantId={
+              gameData?.hostParticipantId ??
+              gameData?.participants?.[0]?.participantId ??
+              null
+            }
+            isHost={isHost}
+            isPrivate={gameData?.isPrivate ?? false}
+            joinCode={gameData?.joinCode ?? null}
+            settings={{
+              isLocked: gameData?.isLocked ?? false,
+              maxPlayers: gameData?.maxPlayers ?? null,
+              requireReady: gameData?.requireReady ?? false,
+            }}
             onStartGame={handleStartGame}
           />
         );
@@ -301,6 +432,7 @@ export const GameModal: React.FC<GameModalProps> = ({
         return (
           <GameCountdown
             onComplete={handleCountdownComplete}
+            countdownMs={gameData?.countdownMs ?? DEFAULT_COUNTDOWN_MS}
             startTime={startTime ?? new Date()}
           />
         );
@@ -315,19 +447,36 @@ export const GameModal: React.FC<GameModalProps> = ({
         );
       case "playing":
         return (
-          <GamePlay
+          <PlayComponent
             gameId={gameId ?? ""}
-            isActive={gameState === "playing" && timeRemaining > 0}
-            onUpdateTapCount={handleUpdateTapCount}
+            participantId={participantId}
+            players={
+              gameData?.participants
+                ? gameData.participants.map((gp) => ({
+                    id: gp.id,
+                    participantId: gp.participantId,
+                    name: gp.name ?? "Anonymous Player",
+                    tapCount: gp.tapCount,
+                    tapHistogram: gp.tapHistogram,
+                    reactionMs: gp.reactionMs,
+                    falseStart: gp.falseStart,
+                    result: gp.result,
+                  }))
+                : []
+            }
+            isActive={
+              gameState === "playing" && timeRemaining > 0 && !isFinished
+            }
             timeRemaining={timeRemaining}
-            tapCount={tapCount} // Pass state down
-            setTapCount={setTapCount} // Pass setter down
+            playStartedAt={playStartedAt}
+            onPlayFinished={handlePlayFinished}
           />
         );
       case "results":
         return (
           <GameResults
             gameId={gameId ?? ""}
+            gameType={gameType}
             participants={
               gameData?.participants
                 ? gameData.participants.map((gp) => ({
@@ -335,6 +484,10 @@ export const GameModal: React.FC<GameModalProps> = ({
                     id: gp.id, // GameParticipant.id
                     participantId: gp.participantId, // Participant.id
                     tapCount: gp.tapCount,
+                    tapHistogram: gp.tapHistogram,
+                    reactionMs: gp.reactionMs,
+                    falseStart: gp.falseStart,
+                    result: gp.result,
                     rank: gp.rank,
                     scoreAwarded: gp.scoreAwarded,
                     participant: {
@@ -346,6 +499,7 @@ export const GameModal: React.FC<GameModalProps> = ({
                   }))
                 : []
             }
+            isScored={!!gameData?.scoredAt}
             onPlayAgain={handlePlayAgain}
           />
         );
@@ -357,6 +511,17 @@ export const GameModal: React.FC<GameModalProps> = ({
   // Update game state based on game data
   useEffect(() => {
     if (gameData) {
+      // The host kicked us out of the lobby
+      if (
+        gameData.status === "waiting" &&
+        gameState === "lobby" &&
+        gameData.isKicked
+      ) {
+        setGameId(undefined);
+        setGameState("gameSelection");
+        return;
+      }
+
       // If game is waiting and we are not already in lobby or game selection (e.g. after creation)
       if (
         gameData.status === "waiting" &&
@@ -398,14 +563,16 @@ export const GameModal: React.FC<GameModalProps> = ({
         }
       }
     }
-  }, [gameData, gameState, isFinished, gameId]); // Added gameId to dependencies
+  }, [gameData, gameState, isFinished, gameId, participantId]); // Added gameId to dependencies
 
-  // Effect to manage the 10-second game timer
+  // Effect to manage the game timer, which runs for the game's chosen duration
   useEffect(() => {
     if (gameState === "playing" && !gameTimerRef.current) {
-      setTimeRemaining(10000); // Reset timer to full duration
+      // Count down to the server's end of play, not a full duration from when we noticed
+      // the game had started, which can be a poll interval late
+      const gameEndTime = (playStartedAt ?? Date.now()) + durationMs;
+      setTimeRemaining(Math.max(0, gameEndTime - Date.now()));
 
-      const gameEndTime = Date.now() + 10000;
       gameTimerRef.current = setInterval(() => {
         const now = Date.now();
         const remaining = Math.max(0, gameEndTime - now);
@@ -415,49 +582,9 @@ export const GameModal: React.FC<GameModalProps> = ({
           if (gameTimerRef.current) clearInterval(gameTimerRef.current);
           gameTimerRef.current = null;
 
-          if (
-            gameId &&
-            !isFinished && // Check current isFinished state before optimistic update
-            finishGameMutation.status !== "pending" &&
-            finishGameMutation.status !== "success"
-          ) {
-            // Optimistically update client state to prevent further tap submissions
-            // before the mutation completes. This ensures that any immediate subsequent
-            // calls to handleUpdateTapCount will see the game as finished.
-            setIsFinished(true); // Optimistically set finished
-            // setGameState("results"); // Defer this until after mutations
-
-            // Send final tap count, then finish the game
-            if (gameId) {
-              updateTapCountMutation.mutate(
-                {
-                  gameId,
-                  tapCount: tapCount, // Use the tapCount state from GameModal
-                },
-                {
-                  onSettled: () => {
-                    // Regardless of success/failure of tap update, finish the game
-                    // and then transition to results.
-                    finishGameMutation.mutate(
-                      { gameId },
-                      {
-                        onSuccess: () => {
-                          setGameState("results"); // Transition to results after game is successfully finished
-                        },
-                        onError: () => {
-                          // If finishing game fails, still go to results to show last known state or error
-                          setGameState("results");
-                        },
-                      },
-                    );
-                  },
-                },
-              );
-            } else {
-              // Should not happen if gameId was required to be in "playing" state
-              setGameState("results"); // Fallback to results
-            }
-          }
+          // Stop play. The play component then sends the player's remaining results and
+          // calls handlePlayFinished, which finishes the game and shows the results.
+          setIsFinished(true);
         }
       }, 100);
     } else if (gameState !== "playing" && gameTimerRef.current) {
@@ -474,7 +601,7 @@ export const GameModal: React.FC<GameModalProps> = ({
         gameTimerRef.current = null;
       }
     };
-  }, [gameState, gameId, isFinished, finishGameMutation]);
+  }, [gameState, durationMs, playStartedAt]);
 
   // Poll for game updates during gameplay - with safeguards
   // This is mainly for updating participant scores/data during active play or countdown.
@@ -482,14 +609,25 @@ export const GameModal: React.FC<GameModalProps> = ({
     let pollInterval: NodeJS.Timeout | undefined;
     const pollFrequency = 2000; // Poll every 2 seconds
 
+    // Keep polling on the results screen until the server has scored the game
+    const isAwaitingResults = gameState === "results" && !gameData?.scoredAt;
+
+    // Status changes are applied when the game is fetched, so keep polling while we're waiting
+    // on one even when Realtime is connected
+    const isAwaitingTransition =
+      gameState === "synchronizing" || isAwaitingResults;
+
     // Poll if we have a gameId, the game is in an active state, and the client doesn't think it's finished yet.
+    // Realtime pushes lobby, countdown and tap count changes while it's connected.
     if (
       gameId &&
-      !isFinished &&
-      (gameState === "lobby" ||
-        gameState === "countdown" ||
-        gameState === "synchronizing" ||
-        gameState === "playing")
+      ((!isLive &&
+        !isFinished &&
+        (gameState === "lobby" ||
+          gameState === "countdown" ||
+          gameState === "synchronizing" ||
+          gameState === "playing")) ||
+        isAwaitingTransition)
     ) {
       pollInterval = setInterval(() => {
         if (!isLoadingGame) {
@@ -503,7 +641,15 @@ export const GameModal: React.FC<GameModalProps> = ({
     return () => {
       if (pollInterval) clearInterval(pollInterval);
     };
-  }, [gameState, gameId, isFinished, refetchGame, isLoadingGame]);
+  }, [
+    gameState,
+    gameId,
+    isFinished,
+    refetchGame,
+    isLoadingGame,
+    gameData?.scoredAt,
+    isLive,
+  ]);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70">
@@ -511,7 +657,16 @@ export const GameModal: React.FC<GameModalProps> = ({
         {/* Header */}
         <div className="mb-6 flex items-center justify-between border-b border-gray-700 pb-4">
           <h1 className="text-2xl font-bold text-white">
-            <span className="mr-2">🚣</span> Row Harder!
+            {gameId ? (
+              <>
+                <span className="mr-2">{gameTypeDefinition.icon}</span>
+                {gameTypeDefinition.name}
+              </>
+            ) : (
+              <>
+                <span className="mr-2">🎮</span> Mini-Games
+              </>
+            )}
           </h1>
           <button
             onClick={onClose}
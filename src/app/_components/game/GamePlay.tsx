@@ -2,33 +2,57 @@
 
 import { useState, useEffect, useRef } from "react";
 import { RowingAnimation } from "./RowingAnimation";
-
-interface GamePlayProps {
-  gameId: string;
-  isActive: boolean;
-  onUpdateTapCount: (tapCount: number) => void; // This will still be used for periodic updates
-  timeRemaining: number;
-  tapCount: number; // Added: current tap count from parent
-  setTapCount: (updater: (prevTapCount: number) => number) => void; // Added: setter from parent
-}
+import { useTapStream } from "./useTapStream";
+import type { GamePlayComponentProps } from "./gameTypeComponents";
 
 /**
  * The main button mashing interface for the "Row Harder!" game
  */
-export const GamePlay: React.FC<GamePlayProps> = ({
+export const GamePlay: React.FC<GamePlayComponentProps> = ({
   gameId,
+  participantId,
+  players,
   isActive,
-  onUpdateTapCount,
   timeRemaining,
-  tapCount, // Added
-  setTapCount, // Added
+  playStartedAt,
+  onPlayFinished,
 }) => {
-  // const [tapCount, setTapCount] = useState<number>(0); // Removed: Managed by parent
-  const [lastUpdateTime, setLastUpdateTime] = useState<number>(0);
+  const [tapCount, setTapCount] = useState<number>(0);
   const [tapsPerSecond, setTapsPerSecond] = useState<number>(0);
   const tapAreaRef = useRef<HTMLDivElement>(null);
   const tapsInCurrentSecond = useRef<number>(0);
   const lastSecondTimestamp = useRef<number>(Date.now());
+  const hasBeenActiveRef = useRef(false);
+  const hasFinishedRef = useRef(false);
+
+  // Stream taps to the server while playing
+  const {
+    start: startTapStream,
+    recordTap,
+    flush: flushTaps,
+  } = useTapStream(gameId, isActive);
+
+  // Opponents' tap counts, kept up to date by the server
+  const opponents = players.filter((p) => p.participantId !== participantId);
+
+  // Start a fresh tap stream when play begins
+  useEffect(() => {
+    if (playStartedAt !== null) startTapStream(playStartedAt);
+  }, [startTapStream, playStartedAt]);
+
+  // Once time is up, send the remaining taps (retrying any lost batches), then let the
+  // game finish whether or not every batch made it
+  useEffect(() => {
+    if (isActive) {
+      hasBeenActiveRef.current = true;
+      return;
+    }
+
+    if (hasBeenActiveRef.current && !hasFinishedRef.current) {
+      hasFinishedRef.current = true;
+      void flushTaps(3).then(onPlayFinished);
+    }
+  }, [isActive, flushTaps, onPlayFinished]);
 
   // Handle tap/click on the mashing area
   const handleTap = () => {
@@ -37,6 +61,7 @@ export const GamePlay: React.FC<GamePlayProps> = ({
     // Increment tap count
     setTapCount((prev) => prev + 1);
     tapsInCurrentSecond.current += 1;
+    recordTap();
 
     // Add visual feedback
     if (tapAreaRef.current) {
@@ -80,18 +105,6 @@ export const GamePlay: React.FC<GamePlayProps> = ({
     return () => clearInterval(interval);
   }, []);
 
-  // Update server with tap count periodically
-  useEffect(() => {
-    if (!isActive) return;
-
-    const now = Date.now();
-    // Only update every 500ms to avoid too many requests
-    if (now - lastUpdateTime > 500) {
-      onUpdateTapCount(tapCount);
-      setLastUpdateTime(now);
-    }
-  }, [tapCount, isActive, onUpdateTapCount, lastUpdateTime]);
-
   // Format time remaining as MM:SS
   const formatTimeRemaining = (ms: number) => {
     const seconds = Math.ceil(ms / 1000);
@@ -119,6 +132,22 @@ export const GamePlay: React.FC<GamePlayProps> = ({
         </div>
       </div>
 
+      {opponents.length > 0 && (
+        <div className="mb-4 w-full space-y-1 px-4">
+          {opponents.map((opponent) => (
+            <div
+              key={opponent.id}
+              className="flex items-center justify-between text-sm"
+            >
+              <span className="text-gray-400">{opponent.name}</span>
+              <span className="font-medium text-white">
+                {opponent.tapCount} taps
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       <RowingAnimation tapCount={tapCount} isActive={isActive} />
 
       <div
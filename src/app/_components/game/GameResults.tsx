@@ -3,11 +3,17 @@
 import { useState } from "react";
 import Image from "next/image";
 import Link from "next/link";
+import { getGameType } from "~/lib/games";
+import { getGameTypeComponents } from "./gameTypeComponents";
 
 interface GameParticipant {
   id: string;
   participantId: string;
   tapCount: number;
+  tapHistogram: number[]; // Taps in each second of play
+  reactionMs: number | null; // Starting Gun reaction time
+  falseStart: boolean; // Starting Gun: tapped before the signal
+  result: number | null; // The game type's scoring metric
   rank?: number | null;
   scoreAwarded?: number | null;
   participant: {
@@ -20,7 +26,9 @@ interface GameParticipant {
 
 interface GameResultsProps {
   gameId: string;
+  gameType: string; // Game type id, see ~/lib/games
   participants: GameParticipant[];
+  isScored: boolean; // False until the server has ranked the game and awarded points
   onPlayAgain: () => void;
 }
 
@@ -29,10 +37,18 @@ interface GameResultsProps {
  */
 export const GameResults: React.FC<GameResultsProps> = ({
   gameId,
+  gameType,
   participants,
+  isScored,
   onPlayAgain,
 }) => {
   const [showingDetails, setShowingDetails] = useState(false);
+  const gameTypeDefinition = getGameType(gameType);
+  const { ResultsDetails } = getGameTypeComponents(gameType);
+
+  // Format a player's result with the game type's unit
+  const formatResult = (result: number | null) =>
+    result === null ? "-" : `${result} ${gameTypeDefinition.metricUnit}`;
 
   // Sort participants by rank
   const sortedParticipants = [...participants].sort((a, b) => {
@@ -45,8 +61,13 @@ export const GameResults: React.FC<GameResultsProps> = ({
     ) {
       return a.rank - b.rank;
     }
-    // Otherwise sort by tap count
-    return (b.tapCount || 0) - (a.tapCount || 0);
+    // Otherwise sort by result, players without one last
+    if (a.result === null || b.result === null) {
+      return (a.result === null ? 1 : 0) - (b.result === null ? 1 : 0);
+    }
+    return gameTypeDefinition.ranking === "highest_wins"
+      ? b.result - a.result
+      : a.result - b.result;
   });
 
   // Get the winner (first place)
@@ -64,6 +85,13 @@ export const GameResults: React.FC<GameResultsProps> = ({
     <div className="flex flex-col items-center">
       <h2 className="mb-2 text-2xl font-bold text-white">Game Results</h2>
 
+      {!isScored && (
+        <div className="mb-4 flex items-center text-sm text-gray-400">
+          <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-white/20 border-t-white/80"></div>
+          Tallying the official results...
+        </div>
+      )}
+
       {/* Winner celebration */}
       {winner && (
         <div className="mb-6 text-center">
@@ -86,7 +114,7 @@ export const GameResults: React.FC<GameResultsProps> = ({
               {winner.participant.email}
             </div>
             <div className="text-greek-gold mt-2 text-lg font-bold">
-              {winner.tapCount} taps
+              {formatResult(winner.result)}
             </div>
             {winner.scoreAwarded && (
               <div className="mt-1 rounded-full bg-green-900 px-3 py-1 text-sm font-medium text-green-300">
@@ -109,7 +137,7 @@ export const GameResults: React.FC<GameResultsProps> = ({
                 Player
               </th>
               <th className="px-4 py-3 text-right text-xs font-medium tracking-wider text-gray-300 uppercase">
-                Taps
+                {gameTypeDefinition.metricLabel}
               </th>
               <th className="px-4 py-3 text-right text-xs font-medium tracking-wider text-gray-300 uppercase">
                 Points
@@ -165,7 +193,7 @@ export const GameResults: React.FC<GameResultsProps> = ({
                   </div>
                 </td>
                 <td className="px-4 py-3 text-right text-sm font-medium whitespace-nowrap text-white">
-                  {participant.tapCount}
+                  {formatResult(participant.result)}
                 </td>
                 <td className="px-4 py-3 text-right text-sm whitespace-nowrap">
                   {participant.scoreAwarded ? (
@@ -182,6 +210,22 @@ export const GameResults: React.FC<GameResultsProps> = ({
         </table>
       </div>
 
+      {/* Breakdown specific to the game type */}
+      {ResultsDetails && (
+        <ResultsDetails
+          players={sortedParticipants.map((participant) => ({
+            id: participant.id,
+            participantId: participant.participantId,
+            name: participant.participant.name ?? "Anonymous Player",
+            tapCount: participant.tapCount,
+            tapHistogram: participant.tapHistogram,
+            reactionMs: participant.reactionMs,
+            falseStart: participant.falseStart,
+            result: participant.result,
+          }))}
+        />
+      )}
+
       {/* Game details toggle */}
       <button
         onClick={() => setShowingDetails(!showingDetails)}
@@ -1,27 +1,123 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { api, type RouterOutputs } from "~/trpc/react";
+import { createBrowserClient } from "~/lib/supabase/client";
+import { REALTIME_SUBSCRIBE_STATES } from "@supabase/supabase-js";
+import {
+  DEFAULT_COUNTDOWN_MS,
+  GAME_COUNTDOWN_BOUNDS_MS,
+  GAME_DURATION_BOUNDS_MS,
+  GAME_TYPES,
+  GAME_TYPE_IDS,
+  getGameType,
+  JOIN_CODE_LENGTH,
+  normalizeJoinCode,
+  type GameTypeId,
+} from "~/lib/games";
 
 type GameWithParticipants = RouterOutputs["game"]["getActiveGames"][number];
 
+// Settings for a new game, as passed to game.createGame
+export interface NewGameOptions {
+  type: GameTypeId;
+  durationMs?: number; // Defaults to the game type's duration
+  countdownMs?: number;
+  isPrivate?: boolean; // Hidden from this list, joined by code or invite link
+}
+
 interface GameSelectionProps {
   onJoinGame: (gameId: string) => void;
-  onCreateGame: () => void;
+  onJoinWithCode: (code: string) => void;
+  onCreateGame: (options: NewGameOptions) => void;
+  joinError?: string | null; // Why the last attempt to join failed
 }
 
+// Keep a number of seconds from an input within bounds given in ms
+const clampSeconds = (seconds: number, bounds: { min: number; max: number }) =>
+  Math.min(bounds.max, Math.max(bounds.min, Math.round(seconds * 1000)));
+
 export const GameSelection: React.FC<GameSelectionProps> = ({
   onJoinGame,
+  onJoinWithCode,
   onCreateGame,
+  joinError,
 }) => {
+  const [supabase] = useState(() => createBrowserClient());
+  const [isLive, setIsLive] = useState(false);
+  const [durationSeconds, setDurationSeconds] = useState(""); // Blank for the game type's default
+  const [countdownSeconds, setCountdownSeconds] = useState(
+    String(DEFAULT_COUNTDOWN_MS / 1000),
+  );
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [joinCode, setJoinCode] = useState("");
+  const utils = api.useUtils();
+
+  const handleCreateGame = (type: GameTypeId) => {
+    const duration = parseFloat(durationSeconds);
+    const countdown = parseFloat(countdownSeconds);
+
+    onCreateGame({
+      type,
+      durationMs: Number.isNaN(duration)
+        ? undefined
+        : clampSeconds(duration, GAME_DURATION_BOUNDS_MS),
+      countdownMs: Number.isNaN(countdown)
+        ? undefined
+        : clampSeconds(countdown, GAME_COUNTDOWN_BOUNDS_MS),
+      isPrivate,
+    });
+  };
+
+  const handleJoinWithCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normalizeJoinCode(joinCode);
+    if (code) {
+      onJoinWithCode(code);
+    }
+  };
+
   const {
     data: activeGames,
     isLoading,
     error,
     refetch,
   } = api.game.getActiveGames.useQuery(undefined, {
-    refetchInterval: 5000, // Refetch every 5 seconds to update the list
+    // Realtime keeps the list fresh; fall back to refetching every 5 seconds without it
+    refetchInterval: isLive ? false : 5000,
   });
 
+  // Refresh the list whenever a game is created, changes status or gains a player
+  useEffect(() => {
+    if (!supabase) return;
+
+    const refreshGames = () => {
+      void utils.game.getActiveGames.invalidate();
+    };
+
+    const channel = supabase
+      .channel("public:games")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "games" },
+        refreshGames,
+      )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "game_participants" },
+        refreshGames,
+      );
+
+    channel.subscribe((status) => {
+      setIsLive(status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED);
+    });
+
+    return () => {
+      setIsLive(false);
+      void supabase.removeChannel(channel);
+    };
+  }, [supabase, utils]);
+
   if (isLoading) {
     return (
       <div className="flex h-64 items-center justify-center">
@@ -47,33 +143,76 @@ export const GameSelection: React.FC<GameSelectionProps> = ({
 
   return (
     <div className="space-y-6">
+      {joinError && (
+        <div className="rounded bg-red-500/30 p-3 text-sm text-white">
+          {joinError}
+        </div>
+      )}
+
+      <form onSubmit={handleJoinWithCode}>
+        <h2 className="mb-4 text-xl font-semibold text-white">
+          Got a Join Code?
+        </h2>
+        <div className="flex gap-3">
+          <input
+            type="text"
+            value={joinCode}
+            onChange={(e) => setJoinCode(e.target.value)}
+            placeholder={"X".repeat(JOIN_CODE_LENGTH)}
+            maxLength={JOIN_CODE_LENGTH + 2} // Leave room for a separator
+            className="flex-1 rounded-md border border-gray-600 bg-gray-800 px-3 py-2 font-mono tracking-widest text-white uppercase"
+          />
+          <button
+            type="submit"
+            disabled={!normalizeJoinCode(joinCode)}
+            className="rounded bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+          >
+            Join
+          </button>
+        </div>
+      </form>
+
       <div>
         <h2 className="mb-4 text-xl font-semibold text-white">
           Join an Existing Game
         </h2>
         {activeGames && activeGames.length > 0 ? (
           <ul className="max-h-60 space-y-3 overflow-y-auto rounded-md border border-gray-700 bg-gray-800 p-4">
-            {activeGames.map((game: GameWithParticipants) => (
-              <li
-                key={game.id}
-                className="bg-gray-750 flex items-center justify-between rounded-md p-3 shadow"
-              >
-                <div>
-                  <p className="font-medium text-white">
-                    Game ID: {game.id.substring(0, 8)}...
-                  </p>
-                  <p className="text-sm text-gray-400">
-                    Players: {game.participants.length}
-                  </p>
-                </div>
-                <button
-                  onClick={() => onJoinGame(game.id)}
-                  className="rounded bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+            {activeGames.map((game: GameWithParticipants) => {
+              const isFull =
+                game.maxPlayers !== null &&
+                game.participants.length >= game.maxPlayers;
+              const canJoin = !game.isLocked && !isFull;
+
+              return (
+                <li
+                  key={game.id}
+                  className="bg-gray-750 flex items-center justify-between rounded-md p-3 shadow"
                 >
-                  Join
-                </button>
-              </li>
-            ))}
+                  <div>
+                    <p className="font-medium text-white">
+                      {getGameType(game.type).icon}{" "}
+                      {getGameType(game.type).name}
+                    </p>
+                    <p className="text-sm text-gray-400">
+                      Game ID: {game.id.substring(0, 8)}...
+                    </p>
+                    <p className="text-sm text-gray-400">
+                      Players: {game.participants.length}
+                      {game.maxPlayers !== null && `/${game.maxPlayers}`} ·{" "}
+                      {game.durationMs / 1000}s
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onJoinGame(game.id)}
+                    disabled={!canJoin}
+                    className="rounded bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+                  >
+                    {game.isLocked ? "Locked" : isFull ? "Full" : "Join"}
+                  </button>
+                </li>
+              );
+            })}
           </ul>
         ) : (
           <p className="text-center text-gray-400">
@@ -86,12 +225,55 @@ export const GameSelection: React.FC<GameSelectionProps> = ({
         <h2 className="mb-4 text-xl font-semibold text-white">
           Or Create Your Own
         </h2>
-        <button
-          onClick={onCreateGame}
-          className="w-full rounded bg-blue-600 px-6 py-3 text-lg font-semibold text-white hover:bg-blue-700"
-        >
-          Create New Game
-        </button>
+        <div className="mb-4 grid grid-cols-2 gap-3">
+          <label className="text-sm text-gray-300">
+            Play time (seconds)
+            <input
+              type="number"
+              min={GAME_DURATION_BOUNDS_MS.min / 1000}
+              max={GAME_DURATION_BOUNDS_MS.max / 1000}
+              value={durationSeconds}
+              onChange={(e) => setDurationSeconds(e.target.value)}
+              placeholder="Game default"
+              className="mt-1 w-full rounded-md border border-gray-600 bg-gray-800 px-3 py-2 text-white"
+            />
+          </label>
+          <label className="text-sm text-gray-300">
+            Countdown (seconds)
+            <input
+              type="number"
+              min={GAME_COUNTDOWN_BOUNDS_MS.min / 1000}
+              max={GAME_COUNTDOWN_BOUNDS_MS.max / 1000}
+              value={countdownSeconds}
+              onChange={(e) => setCountdownSeconds(e.target.value)}
+              className="mt-1 w-full rounded-md border border-gray-600 bg-gray-800 px-3 py-2 text-white"
+            />
+          </label>
+        </div>
+        <label className="mb-4 flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={isPrivate}
+            onChange={(e) => setIsPrivate(e.target.checked)}
+          />
+          Private game (only people with the code or link can join)
+        </label>
+        <div className="space-y-3">
+          {GAME_TYPE_IDS.map((type) => (
+            <button
+              key={type}
+              onClick={() => handleCreateGame(type)}
+              className="w-full rounded bg-blue-600 px-6 py-3 text-left text-white hover:bg-blue-700"
+            >
+              <span className="block text-lg font-semibold">
+                {GAME_TYPES[type].icon} New {GAME_TYPES[type].name} Game
+              </span>
+              <span className="block text-sm text-blue-100">
+                {GAME_TYPES[type].description}
+              </span>
+            </button>
+          ))}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,37 @@
+"use client";
+
+import type { GameResultsDetailsProps } from "./gameTypeComponents";
+
+/**
+ * Each player's reaction in a Starting Gun game, including false starts
+ */
+export const ReactionResults: React.FC<GameResultsDetailsProps> = ({
+  players,
+}) => {
+  return (
+    <div className="mb-6 w-full rounded-lg border border-gray-700 bg-gray-800 p-4">
+      <h3 className="mb-3 text-sm font-medium tracking-wider text-gray-300 uppercase">
+        Reactions
+      </h3>
+      <div className="space-y-1">
+        {players.map((player) => (
+          <div
+            key={player.id}
+            className="flex items-center justify-between text-sm"
+          >
+            <span className="text-gray-400">{player.name}</span>
+            {player.falseStart ? (
+              <span className="font-medium text-red-400">False start</span>
+            ) : player.reactionMs !== null ? (
+              <span className="font-medium text-white">
+                {player.reactionMs} ms
+              </span>
+            ) : (
+              <span className="text-gray-500">No tap</span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
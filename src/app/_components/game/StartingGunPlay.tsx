@@ -0,0 +1,164 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { api } from "~/trpc/react";
+import type { GamePlayComponentProps } from "./gameTypeComponents";
+
+// How often to ask the server whether the signal has fired. Reactions are timed from the
+// signal itself, so a shorter interval only means players see it sooner.
+const SIGNAL_POLL_INTERVAL_MS = 100;
+
+type TapResult = { falseStart: boolean; reactionMs: number | null };
+
+/**
+ * The "Starting Gun" reaction game: wait for the signal, then tap once as fast as you can.
+ * The server holds back the signal until it fires and times the tap itself.
+ */
+export const StartingGunPlay: React.FC<GamePlayComponentProps> = ({
+  gameId,
+  participantId,
+  players,
+  isActive,
+  timeRemaining,
+  onPlayFinished,
+}) => {
+  const [tapResult, setTapResult] = useState<TapResult | null>(null);
+  const hasBeenActiveRef = useRef(false);
+  const hasFinishedRef = useRef(false);
+
+  // Poll until the server reveals the signal
+  const { data: signal } = api.game.getStartingSignal.useQuery(
+    { gameId },
+    {
+      refetchInterval: (query) =>
+        query.state.data?.signalAt ? false : SIGNAL_POLL_INTERVAL_MS,
+      refetchOnWindowFocus: false,
+    },
+  );
+  const hasSignalFired = !!signal?.signalAt;
+
+  const submitReactionMutation = api.game.submitReaction.useMutation({
+    onSuccess: (result) => setTapResult(result),
+  });
+
+  // Once time is up (and any tap has landed), let the game finish
+  useEffect(() => {
+    if (isActive) {
+      hasBeenActiveRef.current = true;
+      return;
+    }
+
+    if (
+      hasBeenActiveRef.current &&
+      !hasFinishedRef.current &&
+      !submitReactionMutation.isPending
+    ) {
+      hasFinishedRef.current = true;
+      onPlayFinished();
+    }
+  }, [isActive, submitReactionMutation.isPending, onPlayFinished]);
+
+  const handleTap = () => {
+    if (!isActive || tapResult || submitReactionMutation.isPending) return;
+
+    submitReactionMutation.mutate({ gameId });
+  };
+
+  const opponents = players.filter((p) => p.participantId !== participantId);
+
+  const renderStatus = () => {
+    if (tapResult?.falseStart) {
+      return (
+        <>
+          <div className="text-3xl font-extrabold text-red-400">
+            FALSE START!
+          </div>
+          <div className="mt-2 text-sm text-gray-300">
+            You jumped the gun and won&apos;t be ranked this round
+          </div>
+        </>
+      );
+    }
+
+    if (tapResult?.reactionMs !== undefined && tapResult.reactionMs !== null) {
+      return (
+        <>
+          <div className="text-3xl font-extrabold text-white">
+            {tapResult.reactionMs} ms
+          </div>
+          <div className="mt-2 text-sm text-gray-300">Your reaction time</div>
+        </>
+      );
+    }
+
+    if (hasSignalFired) {
+      return <div className="text-5xl font-extrabold text-white">TAP!</div>;
+    }
+
+    return (
+      <>
+        <div className="text-2xl font-bold text-white">Wait for it...</div>
+        <div className="mt-2 text-sm text-gray-400">
+          Tapping before the signal is a false start
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="flex flex-col items-center">
+      <div className="mb-4 flex w-full items-center justify-between px-4">
+        <div className="text-center">
+          <div className="text-sm text-gray-400">Players Tapped</div>
+          <div className="text-2xl font-bold text-white">
+            {
+              players.filter((p) => p.reactionMs !== null || p.falseStart)
+                .length
+            }
+            /{players.length}
+          </div>
+        </div>
+
+        <div className="text-center">
+          <div className="text-sm text-gray-400">Time</div>
+          <div className="text-2xl font-bold text-white">
+            {Math.ceil(timeRemaining / 1000)}s
+          </div>
+        </div>
+      </div>
+
+      {opponents.length > 0 && (
+        <div className="mb-4 w-full space-y-1 px-4">
+          {opponents.map((opponent) => (
+            <div
+              key={opponent.id}
+              className="flex items-center justify-between text-sm"
+            >
+              <span className="text-gray-400">{opponent.name}</span>
+              <span className="font-medium text-white">
+                {opponent.falseStart
+                  ? "False start"
+                  : opponent.reactionMs !== null
+                    ? `${opponent.reactionMs} ms`
+                    : "Waiting..."}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div
+        onClick={handleTap}
+        className={`relative mt-2 flex h-56 w-full cursor-pointer items-center justify-center overflow-hidden rounded-lg border-2 transition-colors select-none ${
+          tapResult?.falseStart
+            ? "border-red-500 bg-red-900/60"
+            : hasSignalFired
+              ? "border-green-500 bg-green-700"
+              : "border-gray-600 bg-gray-800"
+        }`}
+      >
+        <div className="text-center">{renderStatus()}</div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+"use client";
+
+import type { GameResultsDetailsProps } from "./gameTypeComponents";
+
+/**
+ * Bar chart of each player's taps over the course of a game, one bar per second
+ */
+export const TapTimeline: React.FC<GameResultsDetailsProps> = ({ players }) => {
+  const seconds = Math.max(0, ...players.map((p) => p.tapHistogram.length));
+  const busiestSecond = Math.max(1, ...players.flatMap((p) => p.tapHistogram));
+
+  if (seconds === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 w-full rounded-lg border border-gray-700 bg-gray-800 p-4">
+      <h3 className="mb-3 text-sm font-medium tracking-wider text-gray-300 uppercase">
+        Taps Over Time
+      </h3>
+      <div className="space-y-3">
+        {players.map((player) => (
+          <div key={player.id}>
+            <div className="mb-1 text-xs text-gray-400">{player.name}</div>
+            <div className="flex h-12 items-end gap-1">
+              {Array.from({ length: seconds }, (_, second) => {
+                const taps = player.tapHistogram[second] ?? 0;
+                return (
+                  <div
+                    key={second}
+                    title={`${second}-${second + 1}s: ${taps} taps`}
+                    className="bg-greek-gold/80 flex-1 rounded-t-sm"
+                    style={{ height: `${(taps / busiestSecond) * 100}%` }}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="mt-1 flex justify-between text-xs text-gray-500">
+        <span>0s</span>
+        <span>{seconds}s</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+"use client";
+
+import { DEFAULT_GAME_TYPE, isGameTypeId, type GameTypeId } from "~/lib/games";
+import { GamePlay } from "./GamePlay";
+import { TapTimeline } from "./TapTimeline";
+import { StartingGunPlay } from "./StartingGunPlay";
+import { ReactionResults } from "./ReactionResults";
+
+/**
+ * A player in a game, as passed to game type components
+ */
+export interface GamePlayer {
+  id: string; // GameParticipant.id
+  participantId: string;
+  name: string;
+  tapCount: number;
+  tapHistogram: number[];
+  reactionMs: number | null;
+  falseStart: boolean;
+  result: number | null; // The game type's scoring metric, null without a valid result
+}
+
+export interface GamePlayComponentProps {
+  gameId: string;
+  participantId: string; // The current player
+  players: GamePlayer[];
+  isActive: boolean;
+  timeRemaining: number;
+  playStartedAt: number | null; // When play began (Game.startedAt), in ms
+  // Call once the player's results have been sent, so the game can be finished
+  onPlayFinished: () => void;
+}
+
+export interface GameResultsDetailsProps {
+  players: GamePlayer[]; // Sorted by rank
+}
+
+/**
+ * Browser-side half of a game type (see ~/lib/games for the shared half)
+ */
+interface GameTypeComponents {
+  Play: React.FC<GamePlayComponentProps>;
+  // Extra breakdown shown under the results table
+  ResultsDetails?: React.FC<GameResultsDetailsProps>;
+}
+
+export const GAME_TYPE_COMPONENTS: Record<GameTypeId, GameTypeComponents> = {
+  row_harder: {
+    Play: GamePlay,
+    ResultsDetails: TapTimeline,
+  },
+  starting_gun: {
+    Play: StartingGunPlay,
+    ResultsDetails: ReactionResults,
+  },
+};
+
+/**
+ * Look up a game type's components, falling back to the default game type for unknown ids
+ * @param type Game.type as returned by the server
+ */
+export const getGameTypeComponents = (type: string) =>
+  GAME_TYPE_COMPONENTS[isGameTypeId(type) ? type : DEFAULT_GAME_TYPE];
@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api } from "~/trpc/react";
+import { createBrowserClient } from "~/lib/supabase/client";
+import { REALTIME_SUBSCRIBE_STATES } from "@supabase/supabase-js";
+
+// Shape of a game_participants row as Realtime sends it
+interface GameParticipantRow {
+  id: string;
+  tap_count: number;
+}
+
+/**
+ * Subscribes to Realtime changes for a single game and keeps the cached `game.getGame`
+ * result up to date with them.
+ *
+ * Opponents' tap counts, which change several times a second, are patched straight into the
+ * cache; anything else (status changes, players joining, reaction times, results) refetches
+ * the game. Callers should keep polling whenever this reports
+ * the channel isn't live, e.g. when the realtime server can't be reached.
+ * @param gameId Game to follow
+ * @returns Whether the channel is currently subscribed
+ */
+export const useGameChannel = (gameId: string | undefined) => {
+  const [supabase] = useState(() => createBrowserClient());
+  const [isLive, setIsLive] = useState(false);
+  const utils = api.useUtils();
+
+  useEffect(() => {
+    if (!supabase || !gameId) return;
+
+    const channel = supabase
+      .channel(`game:${gameId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "games",
+          filter: `id=eq.${gameId}`,
+        },
+        () => {
+          void utils.game.getGame.invalidate({ gameId });
+        },
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "game_participants",
+          filter: `game_id=eq.${gameId}`,
+        },
+        () => {
+          // Refetch to pick up the new player's name and avatar
+          void utils.game.getGame.invalidate({ gameId });
+        },
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "game_participants",
+          filter: `game_id=eq.${gameId}`,
+        },
+        (payload) => {
+          const row = payload.new as GameParticipantRow;
+          const cached = utils.game.getGame
+            .getData({ gameId })
+            ?.participants.find((gp) => gp.id === row.id);
+
+          if (!cached || cached.tapCount === row.tap_count) {
+            void utils.game.getGame.invalidate({ gameId });
+            return;
+          }
+
+          utils.game.getGame.setData({ gameId }, (game) =>
+            game
+              ? {
+                  ...game,
+                  participants: game.participants.map((gp) =>
+                    gp.id === row.id
+                      ? {
+                          ...gp,
+                          tapCount: row.tap_count,
+                        }
+                      : gp,
+                  ),
+                }
+              : game,
+          );
+        },
+      );
+
+    channel.subscribe((status) => {
+      setIsLive(status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED);
+
+      if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+        // Catch up on anything that changed before the subscription was in place
+        void utils.game.getGame.invalidate({ gameId });
+      }
+    });
+
+    return () => {
+      setIsLive(false);
+      void supabase.removeChannel(channel);
+    };
+  }, [supabase, utils, gameId]);
+
+  return isLive;
+};
@@ -0,0 +1,132 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import { api } from "~/trpc/react";
+
+interface TapEvent {
+  at: number; // ms since play started, rounded down to TAP_BUCKET_MS
+  count: number;
+}
+
+interface TapBatch {
+  seq: number;
+  taps: TapEvent[];
+}
+
+// Taps within the same window are sent as a single event
+const TAP_BUCKET_MS = 100;
+// Mirrors the server's limit on a single event's count
+const MAX_TAPS_PER_EVENT = 100;
+// Mirrors the server's limit on batches per request
+const MAX_BATCHES_PER_REQUEST = 50;
+const FLUSH_INTERVAL_MS = 500;
+
+/**
+ * Streams a player's taps to the server as numbered batches of timestamped events.
+ *
+ * A batch keeps its sequence number until the server acknowledges it, so batches lost to
+ * a failed request are sent again with the next flush and the server drops any it already has.
+ * @param gameId Game the taps belong to
+ * @param isActive Whether play is under way; batches are flushed periodically while it is
+ */
+export const useTapStream = (gameId: string | undefined, isActive: boolean) => {
+  const submitTapEventsMutation = api.game.submitTapEvents.useMutation();
+  const { mutateAsync } = submitTapEventsMutation;
+
+  const playStartedAtRef = useRef<number | null>(null);
+  const currentEventsRef = useRef<TapEvent[]>([]);
+  const unackedBatchesRef = useRef<TapBatch[]>([]);
+  const nextSeqRef = useRef(0);
+  const isSendingRef = useRef(false);
+  const sendQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  /**
+   * Begin a fresh stream for a new round of play
+   * @param playStartedAt When play began (Game.startedAt), which tap times are measured from
+   */
+  const start = useCallback((playStartedAt: number) => {
+    playStartedAtRef.current = playStartedAt;
+    currentEventsRef.current = [];
+    unackedBatchesRef.current = [];
+    nextSeqRef.current = 0;
+  }, []);
+
+  const recordTap = useCallback(() => {
+    if (playStartedAtRef.current === null) return;
+
+    // Clamped in case this device's clock runs behind the server's
+    const elapsed = Math.max(0, Date.now() - playStartedAtRef.current);
+    const at = Math.floor(elapsed / TAP_BUCKET_MS) * TAP_BUCKET_MS;
+    const lastEvent = currentEventsRef.current.at(-1);
+
+    if (lastEvent?.at === at && lastEvent.count < MAX_TAPS_PER_EVENT) {
+      lastEvent.count += 1;
+    } else {
+      currentEventsRef.current.push({ at, count: 1 });
+    }
+  }, []);
+
+  // Seal the taps recorded since the last flush into a numbered batch and send every
+  // batch the server hasn't acknowledged yet
+  const send = useCallback(async () => {
+    if (currentEventsRef.current.length > 0) {
+      unackedBatchesRef.current.push({
+        seq: nextSeqRef.current,
+        taps: currentEventsRef.current,
+      });
+      nextSeqRef.current += 1;
+      currentEventsRef.current = [];
+    }
+
+    const batches = unackedBatchesRef.current.slice(0, MAX_BATCHES_PER_REQUEST);
+    if (!gameId || batches.length === 0) return;
+
+    isSendingRef.current = true;
+    try {
+      const result = await mutateAsync({ gameId, batches });
+      const ackedSeqs = new Set(result.ackedSeqs);
+      unackedBatchesRef.current = unackedBatchesRef.current.filter(
+        (batch) => !ackedSeqs.has(batch.seq),
+      );
+    } catch (error) {
+      // Keep the batches queued; they're retried on the next flush
+      console.error("Failed to submit taps:", error);
+    } finally {
+      isSendingRef.current = false;
+    }
+  }, [gameId, mutateAsync]);
+
+  /**
+   * Send everything recorded so far, one request at a time
+   * @param attempts How many requests to make while batches remain unacknowledged
+   */
+  const flush = useCallback(
+    (attempts = 1) => {
+      const run = async () => {
+        for (let attempt = 0; attempt < attempts; attempt++) {
+          await send();
+          if (unackedBatchesRef.current.length === 0) return;
+        }
+      };
+
+      sendQueueRef.current = sendQueueRef.current.then(run);
+      return sendQueueRef.current;
+    },
+    [send],
+  );
+
+  // Flush periodically during play, skipping a tick if the last request is still going
+  useEffect(() => {
+    if (!isActive) return;
+
+    const interval = setInterval(() => {
+      if (!isSendingRef.current) {
+        void flush();
+      }
+    }, FLUSH_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isActive, flush]);
+
+  return { start, recordTap, flush };
+};
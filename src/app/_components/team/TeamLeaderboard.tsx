@@ -0,0 +1,79 @@
+"use client";
+
+import { api } from "~/trpc/react";
+
+/**
+ * Team standings for the olympics page. Hidden until an admin has created teams.
+ */
+export const TeamLeaderboard = () => {
+  const { data: teams, isLoading, error } = api.team.getLeaderboard.useQuery();
+
+  if (isLoading || (!error && !teams?.length)) {
+    return null;
+  }
+
+  return (
+    <div className="border-greek-gold/30 rounded-lg border bg-white/10 p-6 shadow-md">
+      <h2 className="mb-4 flex items-center text-2xl font-bold">
+        <span className="mr-2">🛡️</span> Team Standings
+      </h2>
+      {error ? (
+        <div className="rounded-md border border-red-500/30 bg-red-900/20 p-4 text-center">
+          <p className="font-medium text-red-300">
+            Failed to load team standings
+          </p>
+          <p className="mt-2 text-sm text-red-400">
+            Please try refreshing the page
+          </p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-700">
+            <thead>
+              <tr className="bg-white/5">
+                <th className="px-3 py-3 text-left text-xs font-medium tracking-wider text-gray-300 uppercase">
+                  Rank
+                </th>
+                <th className="px-3 py-3 text-left text-xs font-medium tracking-wider text-gray-300 uppercase">
+                  Team
+                </th>
+                <th className="px-3 py-3 text-right text-xs font-medium tracking-wider text-gray-300 uppercase">
+                  Points
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {teams?.map((team) => (
+                <tr
+                  key={team.id}
+                  className={`transition hover:bg-white/5 ${
+                    team.rank === 1 ? "bg-greek-gold/30 font-bold" : ""
+                  }`}
+                >
+                  <td className="px-3 py-2 text-sm whitespace-nowrap">
+                    {team.rank === 1 && "🥇"} {team.rank}
+                  </td>
+                  <td className="px-3 py-2 text-sm whitespace-nowrap">
+                    <span className="flex items-center">
+                      <span
+                        className="mr-2 h-3 w-3 rounded-full border border-white/30"
+                        style={{ backgroundColor: team.color ?? undefined }}
+                      />
+                      {team.name}
+                      <span className="ml-2 text-xs font-normal text-gray-400">
+                        ({team.memberCount})
+                      </span>
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-right text-sm font-semibold whitespace-nowrap">
+                    {team.totalPoints}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
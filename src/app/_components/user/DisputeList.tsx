@@ -0,0 +1,72 @@
+"use client";
+
+import { api } from "~/trpc/react";
+
+const STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  open: {
+    label: "Under review",
+    className: "bg-yellow-500/30 text-yellow-200",
+  },
+  accepted: { label: "Accepted", className: "bg-green-500/30 text-green-200" },
+  rejected: { label: "Rejected", className: "bg-red-500/30 text-red-200" },
+};
+
+/**
+ * The current user's score disputes and the admins' replies
+ */
+export const DisputeList = () => {
+  const { data: disputes, isLoading, error } = api.dispute.getMine.useQuery();
+
+  if (isLoading || error || !disputes?.length) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8">
+      <h3 className="mb-4 text-xl font-bold">Your Disputes</h3>
+      <div className="space-y-3">
+        {disputes.map((dispute) => {
+          const status = STATUS_STYLES[dispute.status] ?? STATUS_STYLES.open!;
+
+          return (
+            <div
+              key={dispute.id}
+              className="rounded-md border border-white/10 bg-white/5 p-4 text-sm"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium">{dispute.score.event.name}</p>
+                  <p className="text-gray-300">
+                    Disputed {dispute.disputedPoints} pts
+                    {dispute.disputedRank > 0 && ` (#${dispute.disputedRank})`}
+                    {dispute.status === "accepted" &&
+                      ` · now ${dispute.score.points} pts`}
+                  </p>
+                </div>
+                <span
+                  className={`rounded-full px-2 py-1 text-xs ${status.className}`}
+                >
+                  {status.label}
+                </span>
+              </div>
+              <p className="mt-2 text-gray-300 italic">
+                &ldquo;{dispute.message}&rdquo;
+              </p>
+              {dispute.adminReply && (
+                <p className="mt-2 text-gray-200">
+                  <span className="font-medium">Admin reply:</span>{" "}
+                  {dispute.adminReply}
+                </p>
+              )}
+              <p className="mt-1 text-xs text-gray-400">
+                Filed {new Date(dispute.createdAt).toLocaleString()}
+                {dispute.resolvedAt &&
+                  ` · Resolved ${new Date(dispute.resolvedAt).toLocaleString()}`}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
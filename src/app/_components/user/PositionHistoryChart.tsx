@@ -0,0 +1,95 @@
+"use client";
+
+import { api } from "~/trpc/react";
+
+interface PositionHistoryChartProps {
+  participantId: string;
+}
+
+// Drawing area of the chart, in SVG units
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 24;
+
+/**
+ * Line chart of a participant's leaderboard position after each score change, 1st at the top.
+ * Admin checkpoints are marked with a gold dot.
+ */
+export const PositionHistoryChart = ({
+  participantId,
+}: PositionHistoryChartProps) => {
+  const { data: positions, isLoading } = api.score.getPositionHistory.useQuery({
+    participantId,
+  });
+
+  // A single position isn't a history yet
+  if (isLoading || !positions || positions.length < 2) {
+    return null;
+  }
+
+  const worstRank = Math.max(...positions.map((position) => position.rank));
+
+  const points = positions.map((position, index) => ({
+    ...position,
+    x: PADDING + (index / (positions.length - 1)) * (WIDTH - PADDING * 2),
+    y:
+      worstRank === 1
+        ? HEIGHT / 2
+        : PADDING +
+          ((position.rank - 1) / (worstRank - 1)) * (HEIGHT - PADDING * 2),
+  }));
+
+  return (
+    <div className="mt-6">
+      <h3 className="mb-4 text-xl font-bold">Position Over Time</h3>
+      <div className="rounded-md border border-white/10 bg-white/5 p-4">
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="h-48 w-full"
+          role="img"
+          aria-label="Leaderboard position over time"
+        >
+          {/* Best and worst positions reached */}
+          <text x={0} y={PADDING + 4} className="fill-gray-400 text-xs">
+            1
+          </text>
+          {worstRank > 1 && (
+            <text
+              x={0}
+              y={HEIGHT - PADDING + 4}
+              className="fill-gray-400 text-xs"
+            >
+              {worstRank}
+            </text>
+          )}
+
+          <polyline
+            points={points.map((point) => `${point.x},${point.y}`).join(" ")}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth={2}
+            className="text-purple-400"
+          />
+
+          {points.map((point) => (
+            <circle
+              key={point.snapshotId}
+              cx={point.x}
+              cy={point.y}
+              r={point.isCheckpoint ? 5 : 3}
+              className={
+                point.isCheckpoint ? "fill-yellow-400" : "fill-purple-300"
+              }
+            >
+              <title>
+                {`#${point.rank} of ${point.totalParticipants} · ${point.totalPoints} pts${
+                  point.label ? ` · ${point.label}` : ""
+                } · ${new Date(point.createdAt).toLocaleString()}`}
+              </title>
+            </circle>
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+};
@@ -5,14 +5,46 @@ import { api } from "~/trpc/react";
 
 interface ScoreHistoryProps {
   participantId: string;
+  isOwnProfile?: boolean; // Lets the participant dispute their own scores
 }
 
-export const ScoreHistory = ({ participantId }: ScoreHistoryProps) => {
+export const ScoreHistory = ({
+  participantId,
+  isOwnProfile = false,
+}: ScoreHistoryProps) => {
   const { data, isLoading, error } =
     api.participant.getParticipantWithScores.useQuery({
       participantId,
     });
 
+  // The participant's own disputes, to show which scores are already being looked at
+  const { data: disputes } = api.dispute.getMine.useQuery(undefined, {
+    enabled: isOwnProfile,
+  });
+  const utils = api.useUtils();
+
+  // Score currently being disputed, and the explanation being written for it
+  const [disputingScoreId, setDisputingScoreId] = useState<string | null>(null);
+  const [disputeMessage, setDisputeMessage] = useState("");
+  const [disputeError, setDisputeError] = useState<string | null>(null);
+
+  const fileDisputeMutation = api.dispute.fileDispute.useMutation({
+    onSuccess: () => {
+      setDisputingScoreId(null);
+      setDisputeMessage("");
+      void utils.dispute.getMine.invalidate();
+    },
+    onError: (error) => {
+      setDisputeError(error.message);
+    },
+  });
+
+  const openDisputeScoreIds = new Set(
+    disputes
+      ?.filter((dispute) => dispute.status === "open")
+      .map((dispute) => dispute.scoreId),
+  );
+
   // Sort options
   const [sortField, setSortField] = useState<"date" | "rank" | "points">(
     "date",
@@ -82,6 +114,11 @@ export const ScoreHistory = ({ participantId }: ScoreHistoryProps) => {
   return (
     <div className="mt-6">
       <h3 className="mb-4 text-xl font-bold">Event History</h3>
+      {disputeError && (
+        <div className="mb-4 rounded bg-red-500/30 p-3 text-sm">
+          {disputeError}
+        </div>
+      )}
       <div className="overflow-x-auto">
         <table className="min-w-full divide-y divide-gray-700">
           <thead>
@@ -122,6 +159,7 @@ export const ScoreHistory = ({ participantId }: ScoreHistoryProps) => {
                   </span>
                 )}
               </th>
+              {isOwnProfile && <th className="px-4 py-3" />}
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-700">
@@ -163,6 +201,61 @@ export const ScoreHistory = ({ participantId }: ScoreHistoryProps) => {
                   <td className="px-4 py-3 text-center text-sm font-semibold whitespace-nowrap">
                     {score.points}
                   </td>
+                  {isOwnProfile && (
+                    <td className="px-4 py-3 text-right text-sm whitespace-nowrap">
+                      {openDisputeScoreIds.has(score.id) ? (
+                        <span className="rounded-full bg-yellow-500/30 px-2 py-1 text-xs text-yellow-200">
+                          Under review
+                        </span>
+                      ) : disputingScoreId === score.id ? (
+                        <form
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            setDisputeError(null);
+                            fileDisputeMutation.mutate({
+                              scoreId: score.id,
+                              message: disputeMessage,
+                            });
+                          }}
+                          className="flex items-center justify-end gap-2"
+                        >
+                          <input
+                            type="text"
+                            value={disputeMessage}
+                            onChange={(e) => setDisputeMessage(e.target.value)}
+                            placeholder="What's wrong with this score?"
+                            className="w-56 rounded-md bg-white/20 px-3 py-1 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                            required
+                          />
+                          <button
+                            type="submit"
+                            disabled={fileDisputeMutation.isPending}
+                            className="rounded-md bg-purple-600 px-3 py-1 text-xs font-medium text-white hover:bg-purple-700 disabled:opacity-50"
+                          >
+                            Send
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setDisputingScoreId(null)}
+                            className="text-xs text-gray-300 hover:text-white"
+                          >
+                            Cancel
+                          </button>
+                        </form>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            setDisputingScoreId(score.id);
+                            setDisputeMessage("");
+                            setDisputeError(null);
+                          }}
+                          className="rounded-md bg-white/10 px-3 py-1 text-xs text-white transition hover:bg-white/20"
+                        >
+                          Dispute
+                        </button>
+                      )}
+                    </td>
+                  )}
                 </tr>
               );
             })}
@@ -0,0 +1,29 @@
+import { type NextRequest } from "next/server";
+
+import { env } from "~/env";
+import { processDueGameTransitions } from "~/server/game/scheduler";
+
+/**
+ * Applies any game status transitions that have fallen due.
+ *
+ * Called on a schedule by Vercel Cron (see vercel.json), which sends
+ * `Authorization: Bearer <CRON_SECRET>` when CRON_SECRET is set. Clients reading a game
+ * also process its due transitions, so this is the backstop for games nobody is watching.
+ * The every-minute schedule needs a Vercel Pro plan; see the README for Hobby deployments.
+ */
+export async function GET(req: NextRequest) {
+  if (
+    env.CRON_SECRET &&
+    req.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`
+  ) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const applied = await processDueGameTransitions();
+    return Response.json({ applied });
+  } catch (error) {
+    console.error("[GameScheduler] Error processing due transitions:", error);
+    return new Response("Failed to process game transitions", { status: 500 });
+  }
+}
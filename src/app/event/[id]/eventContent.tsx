@@ -5,16 +5,21 @@ import { api } from "~/trpc/react";
 import Link from "next/link";
 import { EventHeader } from "~/app/_components/event/EventHeader";
 import { EventLeaderboard } from "~/app/_components/event/EventLeaderboard";
+import { EventBracket } from "~/app/_components/event/EventBracket";
+import { ChatBox } from "~/app/_components/chat/ChatBox";
+import { eventChatChannel } from "~/lib/chat";
 import type { User } from "@supabase/supabase-js";
 
 interface EventContentProps {
   eventId: string;
   currentUser: User | null;
+  currentParticipant: { id: string; isAdmin: boolean } | null;
 }
 
 export default function EventContent({
   eventId,
   currentUser,
+  currentParticipant,
 }: EventContentProps) {
   const { data, isLoading, error } = api.event.getEventWithScores.useQuery({
     eventId,
@@ -77,12 +82,26 @@ export default function EventContent({
             <EventHeader event={event} />
           </div>
 
+          {/* Heats and finals, for events run in rounds */}
+          <EventBracket eventId={event.id} />
+
           <div className="border-greek-gold/30 rounded-lg border bg-white/10 p-6 shadow-md">
             <h2 className="mb-6 flex items-center text-2xl font-bold">
               <span className="mr-2">🏆</span> Event Leaderboard
             </h2>
             <EventLeaderboard scores={scores} />
           </div>
+
+          {/* Chat for this event */}
+          <div className="mt-8">
+            <ChatBox
+              isSignedIn={!!currentUser}
+              participantId={currentParticipant?.id}
+              isAdmin={currentParticipant?.isAdmin}
+              channel={eventChatChannel(event.id)}
+              title={`${event.name} Chat`}
+            />
+          </div>
         </div>
       </div>
     </main>
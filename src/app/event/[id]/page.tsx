@@ -41,9 +41,26 @@ export default async function EventPage({
     data: { user },
   } = await supabase.auth.getUser();
 
+  // The signed-in participant, for the event chat
+  const participant = user
+    ? await db.participant.findUnique({
+        where: {
+          userId: user.id,
+        },
+        select: {
+          id: true,
+          isAdmin: true,
+        },
+      })
+    : null;
+
   return (
     <HydrateClient>
-      <EventContent eventId={id} currentUser={user} />
+      <EventContent
+        eventId={id}
+        currentUser={user}
+        currentParticipant={participant}
+      />
     </HydrateClient>
   );
 }
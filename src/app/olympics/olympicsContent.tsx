@@ -7,13 +7,24 @@ import { api } from "~/trpc/react";
 import { createBrowserClient } from "~/lib/supabase/client";
 import { InviteForm } from "../_components/admin/InviteForm";
 import { ScoreEntryForm } from "../_components/admin/ScoreEntryForm";
+import { BulkResultsForm } from "../_components/admin/BulkResultsForm";
+import { ScoreAuditLogPanel } from "../_components/admin/ScoreAuditLogPanel";
+import { DisputeQueuePanel } from "../_components/admin/DisputeQueuePanel";
+import { ModerationQueuePanel } from "../_components/admin/ModerationQueuePanel";
+import { LeaderboardCheckpointForm } from "../_components/admin/LeaderboardCheckpointForm";
+import { TeamManagementPanel } from "../_components/admin/TeamManagementPanel";
+import { TeamScoreForm } from "../_components/admin/TeamScoreForm";
+import { RoundManagementPanel } from "../_components/admin/RoundManagementPanel";
+import { TeamLeaderboard } from "../_components/team/TeamLeaderboard";
 import { EventManagementForm } from "../_components/admin/EventManagementForm";
+import { FlaggedRunsPanel } from "../_components/admin/FlaggedRunsPanel";
 import { AvatarUpload } from "../_components/user/AvatarUpload";
 import { ChatBox } from "../_components/chat/ChatBox";
 import { useRouter, useSearchParams } from "next/navigation";
 import { GameIcon } from "../_components/game/GameIcon";
 import { GameModal } from "../_components/game/GameModal";
 import type { User } from "@supabase/supabase-js"; // Import User type
+import { formatEventTimes, parseEventStatus } from "~/lib/events";
 
 // Define participant profile type based on Prisma schema
 export interface ParticipantProfile {
@@ -114,13 +125,14 @@ export default function OlympicsContent({
   const [showGameModal, setShowGameModal] = useState(false);
   const searchParams = useSearchParams();
   const gameIdParam = searchParams.get("game");
+  const joinCodeParam = searchParams.get("code"); // Private games' invite links
 
   // Check for game parameter in URL and show game modal if present
   useEffect(() => {
-    if (gameIdParam && userProfile) {
+    if ((gameIdParam ?? joinCodeParam) && userProfile) {
       setShowGameModal(true);
     }
-  }, [gameIdParam, userProfile]);
+  }, [gameIdParam, joinCodeParam, userProfile]);
   const router = useRouter();
 
   // Fetch events data
@@ -176,8 +188,9 @@ export default function OlympicsContent({
         new: payload.new,
         old: payload.old,
       });
-      // Invalidate the leaderboard query to trigger a refetch
+      // Invalidate the leaderboard queries to trigger a refetch
       void utils.score.getLeaderboardData.invalidate();
+      void utils.team.getLeaderboard.invalidate();
     };
 
     // Create a channel specific to this subscription
@@ -191,6 +204,12 @@ export default function OlympicsContent({
           table: "scores", // Specifically listen to the scores table
         },
         handleScoreChange, // Callback function
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "events" },
+        // Keep the agenda's live event up to date
+        () => void utils.event.getAll.invalidate(),
       );
 
     // Subscribe to the channel
@@ -373,7 +392,16 @@ export default function OlympicsContent({
               <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
                 <InviteForm />
                 <ScoreEntryForm />
+                <BulkResultsForm />
+                <RoundManagementPanel />
                 <EventManagementForm />
+                <FlaggedRunsPanel />
+                <ScoreAuditLogPanel />
+                <DisputeQueuePanel />
+                <ModerationQueuePanel />
+                <LeaderboardCheckpointForm />
+                <TeamManagementPanel />
+                <TeamScoreForm />
               </div>
             </div>
           )}
@@ -415,18 +443,18 @@ export default function OlympicsContent({
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-700">
-                      {leaderboardData.map((participant, index) => {
+                      {leaderboardData.map((participant) => {
                         // Determine medal class based on ranking
                         let medalClass = "";
                         let medalEmoji = "";
 
-                        if (index === 0) {
+                        if (participant.rank === 1) {
                           medalClass = "bg-greek-gold/30 font-bold"; // Gold
                           medalEmoji = "🥇";
-                        } else if (index === 1) {
+                        } else if (participant.rank === 2) {
                           medalClass = "bg-gray-400/30 font-bold"; // Silver
                           medalEmoji = "🥈";
-                        } else if (index === 2) {
+                        } else if (participant.rank === 3) {
                           medalClass = "bg-greek-terracotta/30 font-bold"; // Bronze
                           medalEmoji = "🥉";
                         }
@@ -437,7 +465,21 @@ export default function OlympicsContent({
                             className={`transition hover:bg-white/5 ${medalClass}`}
                           >
                             <td className="px-3 py-2 text-sm whitespace-nowrap">
-                              {medalEmoji} {index + 1}
+                              {medalEmoji} {participant.rank}
+                              {/* Movement since the last event or checkpoint */}
+                              {participant.rankChange ? (
+                                <span
+                                  className={`ml-2 text-xs ${
+                                    participant.rankChange > 0
+                                      ? "text-green-400"
+                                      : "text-red-400"
+                                  }`}
+                                  title="Places moved since the last event or checkpoint"
+                                >
+                                  {participant.rankChange > 0 ? "▲" : "▼"}
+                                  {Math.abs(participant.rankChange)}
+                                </span>
+                              ) : null}
                             </td>
                             <td className="px-3 py-2 text-sm whitespace-nowrap">
                               <Link
@@ -478,10 +520,13 @@ export default function OlympicsContent({
               )}
             </div>
 
+            {/* Team Leaderboard */}
+            <TeamLeaderboard />
+
             {/* Events */}
             <div className="border-greek-gold/30 rounded-lg border bg-white/10 p-6 shadow-md">
               <h2 className="mb-4 flex items-center text-2xl font-bold">
-                <span className="mr-2">🏃‍♂️</span> Events
+                <span className="mr-2">🏃‍♂️</span> Agenda
               </h2>
               {isLoadingEvents ? (
                 <div className="flex flex-col items-center py-8">
@@ -499,41 +544,72 @@ export default function OlympicsContent({
                 </div>
               ) : events && events.length > 0 ? (
                 <ul className="space-y-3">
-                  {events.map((event, index) => (
-                    <li
-                      key={event.id}
-                      className="border-greek-gold/30 rounded-md border bg-white/5 p-4 transition hover:bg-white/10"
-                    >
-                      <div className="flex items-start">
-                        <div className="bg-greek-blue mr-3 flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full font-bold text-white">
-                          {index + 1}
-                        </div>
-                        <div>
-                          <Link
-                            href={`/event/${event.id}`}
-                            className="hover:text-greek-gold transition-colors"
-                          >
-                            <h3 className="text-lg font-semibold">
-                              {event.name}
-                            </h3>
-                          </Link>
-                          {event.description && (
-                            <p className="mt-1 text-sm text-gray-300">
-                              {event.description}
-                            </p>
-                          )}
-                          <div className="mt-2">
+                  {events.map((event, index) => {
+                    const status = parseEventStatus(event.status);
+                    const times = formatEventTimes(
+                      event.startsAt,
+                      event.endsAt,
+                    );
+
+                    return (
+                      <li
+                        key={event.id}
+                        className={`rounded-md border p-4 transition hover:bg-white/10 ${
+                          status === "live"
+                            ? "border-green-400 bg-green-500/20 ring-2 ring-green-400/50"
+                            : "border-greek-gold/30 bg-white/5"
+                        } ${status === "completed" ? "opacity-60" : ""}`}
+                      >
+                        <div className="flex items-start">
+                          <div className="bg-greek-blue mr-3 flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full font-bold text-white">
+                            {index + 1}
+                          </div>
+                          <div>
                             <Link
                               href={`/event/${event.id}`}
-                              className="text-greek-gold text-sm hover:underline"
+                              className="hover:text-greek-gold transition-colors"
                             >
-                              View event details →
+                              <h3 className="text-lg font-semibold">
+                                {event.name}
+                                {status === "live" && (
+                                  <span className="ml-2 animate-pulse rounded-full bg-green-500 px-2 py-0.5 text-xs font-bold text-white uppercase">
+                                    Live
+                                  </span>
+                                )}
+                                {status === "completed" && (
+                                  <span className="ml-2 text-sm font-normal text-gray-300">
+                                    ✓
+                                  </span>
+                                )}
+                              </h3>
                             </Link>
+                            {(times ?? event.location) && (
+                              <p className="mt-1 text-sm text-gray-200">
+                                {times && <span>🕒 {times}</span>}
+                                {times && event.location && " · "}
+                                {event.location && (
+                                  <span>📍 {event.location}</span>
+                                )}
+                              </p>
+                            )}
+                            {event.description && (
+                              <p className="mt-1 text-sm text-gray-300">
+                                {event.description}
+                              </p>
+                            )}
+                            <div className="mt-2">
+                              <Link
+                                href={`/event/${event.id}`}
+                                className="text-greek-gold text-sm hover:underline"
+                              >
+                                View event details →
+                              </Link>
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    </li>
-                  ))}
+                      </li>
+                    );
+                  })}
                 </ul>
               ) : (
                 <p className="text-gray-300">No events available yet.</p>
@@ -541,7 +617,11 @@ export default function OlympicsContent({
             </div>
 
             {/* Chat Section - Replacing the User Profile */}
-            <ChatBox user={user} />
+            <ChatBox
+              isSignedIn={!!user}
+              participantId={userProfile?.id}
+              isAdmin={isAdmin}
+            />
           </div>
 
           {/* Game Modal */}
@@ -549,6 +629,7 @@ export default function OlympicsContent({
             <GameModal
               onClose={() => setShowGameModal(false)}
               initialGameId={gameIdParam ?? undefined}
+              initialJoinCode={joinCodeParam ?? undefined}
               _userId={user?.id ?? ""}
               participantId={userProfile.id}
             />
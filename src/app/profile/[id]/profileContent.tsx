@@ -5,6 +5,8 @@ import Link from "next/link";
 import { api } from "~/trpc/react";
 import { ProfileHeader } from "~/app/_components/user/ProfileHeader";
 import { ScoreHistory } from "~/app/_components/user/ScoreHistory";
+import { DisputeList } from "~/app/_components/user/DisputeList";
+import { PositionHistoryChart } from "~/app/_components/user/PositionHistoryChart";
 import type { User } from "@supabase/supabase-js";
 
 interface ProfileContentProps {
@@ -130,8 +132,14 @@ export default function ProfileContent({
           rank={rank}
         />
 
+        {/* Leaderboard position over time */}
+        <PositionHistoryChart participantId={profileId} />
+
         {/* Score History */}
-        <ScoreHistory participantId={profileId} />
+        <ScoreHistory participantId={profileId} isOwnProfile={isOwnProfile} />
+
+        {/* Outcomes of the user's own score disputes */}
+        {isOwnProfile && <DisputeList />}
       </div>
     </main>
   );
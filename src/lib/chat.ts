@@ -0,0 +1,141 @@
+/**
+ * How long after sending a chat message its author can still edit it
+ */
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+/**
+ * Whether a message sent at the given time can still be edited by its author
+ * @param createdAt When the message was sent
+ * @param now Defaults to the current time
+ */
+export function isWithinEditWindow(createdAt: Date, now = new Date()) {
+  return (
+    now.getTime() - new Date(createdAt).getTime() <=
+    MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000
+  );
+}
+
+/**
+ * Emoji participants can react to chat messages with, in the order they're offered
+ */
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "🎉", "🔥", "😮"] as const;
+
+export type ReactionEmoji = (typeof REACTION_EMOJIS)[number];
+
+/**
+ * Regex matching "@Name" for any of the given names, longest name first so
+ * "@Ann Lee" wins over "@Ann"
+ */
+function mentionPattern(names: string[]) {
+  const alternatives = [...names]
+    .filter((name) => name.trim() !== "")
+    .sort((a, b) => b.length - a.length)
+    .map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+
+  return alternatives.length
+    ? new RegExp(`@(${alternatives.join("|")})(?![\\p{L}\\p{N}_])`, "giu")
+    : null;
+}
+
+/**
+ * Participants @mentioned in a chat message
+ * @param content Message text
+ * @param participants Everyone who could be mentioned
+ * @returns Ids of the participants mentioned, each once
+ */
+export function findMentions(
+  content: string,
+  participants: { id: string; name: string | null }[],
+) {
+  const named = participants.filter(
+    (participant): participant is { id: string; name: string } =>
+      !!participant.name,
+  );
+  const pattern = mentionPattern(named.map((participant) => participant.name));
+
+  if (!pattern) {
+    return [];
+  }
+
+  const mentionedNames = new Set(
+    [...content.matchAll(pattern)].map((match) => match[1]!.toLowerCase()),
+  );
+
+  return named
+    .filter((participant) => mentionedNames.has(participant.name.toLowerCase()))
+    .map((participant) => participant.id);
+}
+
+/**
+ * Break message text into plain runs and "@Name" mentions of the given names, for highlighting
+ */
+export function splitMentions(content: string, names: string[]) {
+  const pattern = mentionPattern(names);
+
+  if (!pattern) {
+    return [{ text: content, isMention: false }];
+  }
+
+  const parts: { text: string; isMention: boolean }[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(pattern)) {
+    if (match.index > lastIndex) {
+      parts.push({
+        text: content.slice(lastIndex, match.index),
+        isMention: false,
+      });
+    }
+    parts.push({ text: match[0], isMention: true });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < content.length) {
+    parts.push({ text: content.slice(lastIndex), isMention: false });
+  }
+
+  return parts;
+}
+
+/**
+ * Chat channels, stored on Message.channel: the global chat everyone sees,
+ * one per event, and a lobby chat per game that's cleared once the game starts
+ */
+export const GLOBAL_CHAT_CHANNEL = "global";
+
+export function eventChatChannel(eventId: string) {
+  return `event:${eventId}`;
+}
+
+export function gameChatChannel(gameId: string) {
+  return `game:${gameId}`;
+}
+
+export type ChatChannel =
+  | { type: "global" }
+  | { type: "event"; eventId: string }
+  | { type: "game"; gameId: string };
+
+/**
+ * Read a channel key, or null if it isn't one
+ * @param value Message.channel, or a channel requested by a client
+ */
+export function parseChatChannel(value: string): ChatChannel | null {
+  if (value === GLOBAL_CHAT_CHANNEL) {
+    return { type: "global" };
+  }
+
+  const [type, id] = value.split(":");
+  if (!id) {
+    return null;
+  }
+
+  if (type === "event") {
+    return { type, eventId: id };
+  }
+  if (type === "game") {
+    return { type, gameId: id };
+  }
+
+  return null;
+}
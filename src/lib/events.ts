@@ -0,0 +1,45 @@
+/**
+ * Where an event is in the day's schedule. Stored on Event.status and set by admins.
+ */
+export const EVENT_STATUSES = ["upcoming", "live", "completed"] as const;
+
+export type EventStatus = (typeof EVENT_STATUSES)[number];
+
+export const DEFAULT_EVENT_STATUS: EventStatus = "upcoming";
+
+export const EVENT_STATUS_NAMES: Record<EventStatus, string> = {
+  upcoming: "Upcoming",
+  live: "Live now",
+  completed: "Completed",
+};
+
+export function isEventStatus(value: string): value is EventStatus {
+  return (EVENT_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Read an event's status, falling back to the default for unknown values
+ * @param value Event.status as stored in the database
+ */
+export function parseEventStatus(value: string | null | undefined) {
+  return value && isEventStatus(value) ? value : DEFAULT_EVENT_STATUS;
+}
+
+/**
+ * Human readable time slot for an event, e.g. "14:00 – 14:30", or null if it isn't scheduled
+ */
+export function formatEventTimes(
+  startsAt: Date | null | undefined,
+  endsAt: Date | null | undefined,
+) {
+  const formatTime = (date: Date) =>
+    date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+  if (!startsAt) {
+    return null;
+  }
+
+  return endsAt
+    ? `${formatTime(startsAt)} – ${formatTime(endsAt)}`
+    : formatTime(startsAt);
+}
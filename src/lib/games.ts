@@ -0,0 +1,103 @@
+/**
+ * Registry of the mini-games players can start from the game modal.
+ *
+ * This file is shared by the server and the browser, so it only holds plain data. The server
+ * side of each game type (how a player's result is read) lives in src/server/game/gameTypes.ts
+ * and its play component is registered in src/app/_components/game/gameTypeComponents.tsx.
+ */
+export interface GameTypeDefinition {
+  name: string;
+  description: string;
+  icon: string;
+  // Leaderboard event the game's results are scored against
+  eventName: string;
+  eventDescription: string;
+  // How long play lasts once the countdown is over, unless the game's creator picks otherwise
+  defaultDurationMs: number;
+  // What a player's result measures, e.g. "Taps"
+  metricLabel: string;
+  metricUnit: string;
+  // Whether the highest or the lowest result wins
+  ranking: "highest_wins" | "lowest_wins";
+}
+
+export const GAME_TYPES = {
+  row_harder: {
+    name: "Row Harder!",
+    description: "Tap as fast as you can before time runs out",
+    icon: "🚣",
+    eventName: "Row Harder!",
+    eventDescription: "Secret button mashing competition",
+    defaultDurationMs: 10000,
+    metricLabel: "Taps",
+    metricUnit: "taps",
+    ranking: "highest_wins",
+  },
+  starting_gun: {
+    name: "Starting Gun",
+    description: "Wait for the signal, then tap before anyone else",
+    icon: "🏁",
+    eventName: "Starting Gun",
+    eventDescription: "Fastest reactions off the blocks",
+    defaultDurationMs: 8000,
+    metricLabel: "Reaction",
+    metricUnit: "ms",
+    ranking: "lowest_wins",
+  },
+} satisfies Record<string, GameTypeDefinition>;
+
+export type GameTypeId = keyof typeof GAME_TYPES;
+
+/**
+ * Bounds on the play time a game's creator can choose
+ */
+export const GAME_DURATION_BOUNDS_MS = { min: 5000, max: 60000 };
+
+/**
+ * Bounds on the countdown a game's creator can choose
+ */
+export const GAME_COUNTDOWN_BOUNDS_MS = { min: 1000, max: 10000 };
+
+/**
+ * Bounds on the player limit a game's host can set
+ */
+export const MAX_PLAYERS_BOUNDS = { min: 2, max: 20 };
+
+/**
+ * Private games are joined with a short code made of these characters, which leave out
+ * look-alikes such as 0/O and 1/I so codes are easy to read out
+ */
+export const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const JOIN_CODE_LENGTH = 6;
+
+/**
+ * Tidy up a join code as typed by a player, e.g. " abc-234 " becomes "ABC234"
+ */
+export function normalizeJoinCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * Length of the "3-2-1" countdown, unless the game's creator picks otherwise
+ */
+export const DEFAULT_COUNTDOWN_MS = 3000;
+
+export const DEFAULT_GAME_TYPE: GameTypeId = "row_harder";
+
+export const GAME_TYPE_IDS = Object.keys(GAME_TYPES) as [
+  GameTypeId,
+  ...GameTypeId[],
+];
+
+export function isGameTypeId(value: string): value is GameTypeId {
+  return value in GAME_TYPES;
+}
+
+/**
+ * Look up a game type, falling back to the default for unknown ids (e.g. a type that has
+ * since been removed)
+ * @param type Game.type as stored in the database
+ */
+export function getGameType(type: string): GameTypeDefinition {
+  return isGameTypeId(type) ? GAME_TYPES[type] : GAME_TYPES[DEFAULT_GAME_TYPE];
+}
@@ -0,0 +1,110 @@
+import { pointsForRank, type ScoringScheme } from "~/lib/scoring";
+
+/**
+ * How tied finishers are ranked and scored. Stored on Event.rankingPolicy.
+ *
+ * - standard: ties share the best place and the places they cover are skipped ("1, 2, 2, 4")
+ * - dense: ties share the best place and nothing is skipped ("1, 2, 2, 3")
+ * - split_points: ranked like standard, but tied finishers share the points of every place
+ *   they cover, e.g. two tied for 2nd each get the average of 2nd and 3rd place points
+ */
+export const RANKING_POLICIES = ["standard", "dense", "split_points"] as const;
+
+export type RankingPolicy = (typeof RANKING_POLICIES)[number];
+
+export const DEFAULT_RANKING_POLICY: RankingPolicy = "standard";
+
+export const RANKING_POLICY_NAMES: Record<RankingPolicy, string> = {
+  standard: "Standard (1, 2, 2, 4)",
+  dense: "Dense (1, 2, 2, 3)",
+  split_points: "Split points for ties",
+};
+
+export function isRankingPolicy(value: string): value is RankingPolicy {
+  return (RANKING_POLICIES as readonly string[]).includes(value);
+}
+
+/**
+ * Read an event's ranking policy, falling back to the default for unknown values
+ * @param value Event.rankingPolicy as stored in the database
+ */
+export function parseRankingPolicy(value: string | null | undefined) {
+  return value && isRankingPolicy(value) ? value : DEFAULT_RANKING_POLICY;
+}
+
+/**
+ * A finisher's place in a ranking
+ */
+export interface Placing<T> {
+  entry: T;
+  rank: number;
+  // The places the finisher's tie covers, e.g. 2 and 3 for two players tied for 2nd
+  firstPlace: number;
+  tiedWith: number; // How many finishers share this placing, including this one
+}
+
+/**
+ * Rank finishers who have already been grouped by place
+ * @param groups Finishers grouped by place, best first; everyone in a group is tied
+ * @param policy How ties affect the ranks after them
+ */
+export function rankTiedGroups<T>(
+  groups: T[][],
+  policy: RankingPolicy,
+): Placing<T>[] {
+  const placings: Placing<T>[] = [];
+
+  groups.forEach((group, groupIndex) => {
+    const firstPlace = placings.length + 1;
+    const rank = policy === "dense" ? groupIndex + 1 : firstPlace;
+
+    for (const entry of group) {
+      placings.push({ entry, rank, firstPlace, tiedWith: group.length });
+    }
+  });
+
+  return placings;
+}
+
+/**
+ * Sort finishers and group the ones with equal results, ready for rankTiedGroups
+ * @param entries Finishers in any order
+ * @param compare Sort order, best first; 0 means tied
+ */
+export function groupTies<T>(entries: T[], compare: (a: T, b: T) => number) {
+  const groups: T[][] = [];
+
+  for (const entry of [...entries].sort(compare)) {
+    const currentGroup = groups[groups.length - 1];
+    if (
+      currentGroup?.[0] !== undefined &&
+      compare(currentGroup[0], entry) === 0
+    ) {
+      currentGroup.push(entry);
+    } else {
+      groups.push([entry]);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Points a placing is worth under an event's scoring scheme and ranking policy
+ */
+export function pointsForPlacing(
+  scheme: ScoringScheme,
+  policy: RankingPolicy,
+  placing: Pick<Placing<unknown>, "rank" | "firstPlace" | "tiedWith">,
+) {
+  if (policy !== "split_points" || placing.tiedWith === 1) {
+    return pointsForRank(scheme, placing.rank);
+  }
+
+  let totalPoints = 0;
+  for (let offset = 0; offset < placing.tiedWith; offset++) {
+    totalPoints += pointsForRank(scheme, placing.firstPlace + offset);
+  }
+
+  return Math.round(totalPoints / placing.tiedWith);
+}
@@ -0,0 +1,115 @@
+import { z } from "zod";
+
+/**
+ * How an event turns a finishing position into leaderboard points.
+ *
+ * Stored as JSON on Event.scoringScheme (null means DEFAULT_SCORING_SCHEME). Every scheme can
+ * carry a multiplier, e.g. 2 for a "double points" final, applied after the base points.
+ */
+const multiplierSchema = z.number().positive().max(10).default(1);
+
+export const scoringSchemeSchema = z.discriminatedUnion("type", [
+  // firstPlacePoints for 1st, pointsPerPlace fewer for each place after, never below minimumPoints
+  z.object({
+    type: z.literal("linear"),
+    firstPlacePoints: z.number().int().min(0),
+    pointsPerPlace: z.number().int().min(0),
+    minimumPoints: z.number().int().min(0).default(0),
+    multiplier: multiplierSchema,
+  }),
+  // points[0] for 1st, points[1] for 2nd, ...; places past the end of the table score nothing
+  z.object({
+    type: z.literal("table"),
+    points: z.array(z.number().int().min(0)).min(1).max(100),
+    multiplier: multiplierSchema,
+  }),
+  // Only the winner scores
+  z.object({
+    type: z.literal("winner_takes_all"),
+    points: z.number().int().min(0),
+    multiplier: multiplierSchema,
+  }),
+]);
+
+export type ScoringScheme = z.infer<typeof scoringSchemeSchema>;
+export type ScoringSchemeType = ScoringScheme["type"];
+
+/**
+ * The original points table: 14 for 1st down to 1 for 14th, i.e. 15 - rank
+ */
+export const DEFAULT_SCORING_SCHEME: ScoringScheme = {
+  type: "linear",
+  firstPlacePoints: 14,
+  pointsPerPlace: 1,
+  minimumPoints: 0,
+  multiplier: 1,
+};
+
+export const SCORING_SCHEME_NAMES: Record<ScoringSchemeType, string> = {
+  linear: "Linear",
+  table: "Custom points table",
+  winner_takes_all: "Winner takes all",
+};
+
+/**
+ * Read an event's scheme, falling back to the default for events without one (or with one
+ * that no longer parses)
+ * @param value Event.scoringScheme as stored in the database
+ */
+export function parseScoringScheme(value: unknown): ScoringScheme {
+  if (value === null || value === undefined) {
+    return DEFAULT_SCORING_SCHEME;
+  }
+
+  const parsed = scoringSchemeSchema.safeParse(value);
+  return parsed.success ? parsed.data : DEFAULT_SCORING_SCHEME;
+}
+
+/**
+ * Points a finishing position is worth under a scheme
+ * @param scheme The event's scoring scheme
+ * @param rank Finishing position, 1 for the winner
+ */
+export function pointsForRank(scheme: ScoringScheme, rank: number): number {
+  let basePoints: number;
+
+  switch (scheme.type) {
+    case "linear":
+      basePoints = Math.max(
+        scheme.minimumPoints,
+        scheme.firstPlacePoints - scheme.pointsPerPlace * (rank - 1),
+      );
+      break;
+    case "table":
+      basePoints = scheme.points[rank - 1] ?? 0;
+      break;
+    case "winner_takes_all":
+      basePoints = rank === 1 ? scheme.points : 0;
+      break;
+  }
+
+  return Math.round(basePoints * scheme.multiplier);
+}
+
+/**
+ * One-line summary of a scheme for admins and the event page, e.g. "1st: 14, 2nd: 13, 3rd: 12..."
+ */
+export function describeScoringScheme(scheme: ScoringScheme): string {
+  const places = [1, 2, 3].map(
+    (rank) => `${ordinal(rank)}: ${pointsForRank(scheme, rank)}`,
+  );
+  const summary =
+    scheme.type === "winner_takes_all"
+      ? `Winner takes ${pointsForRank(scheme, 1)}`
+      : `${places.join(", ")}...`;
+
+  return scheme.multiplier === 1
+    ? summary
+    : `${summary} (×${scheme.multiplier} points)`;
+}
+
+function ordinal(rank: number) {
+  const suffixes = ["th", "st", "nd", "rd"];
+  const lastTwo = rank % 100;
+  return `${rank}${suffixes[(lastTwo - 20) % 10] ?? suffixes[lastTwo] ?? suffixes[0]}`;
+}
@@ -0,0 +1,54 @@
+/**
+ * How a team's points for an event are worked out. Stored on Event.teamScoring.
+ *
+ * - sum: the points of every member who scored in the event, added up
+ * - average: the average points of the members who scored, rounded
+ * - best_n: the points of the team's best N scorers (Event.teamBestCount), added up
+ * - direct: entered by an admin for the whole team, ignoring member scores
+ */
+export const TEAM_SCORING_METHODS = [
+  "sum",
+  "average",
+  "best_n",
+  "direct",
+] as const;
+
+export type TeamScoringMethod = (typeof TEAM_SCORING_METHODS)[number];
+
+export const DEFAULT_TEAM_SCORING_METHOD: TeamScoringMethod = "sum";
+
+export const TEAM_SCORING_METHOD_NAMES: Record<TeamScoringMethod, string> = {
+  sum: "Sum of member scores",
+  average: "Average member score",
+  best_n: "Sum of the best N member scores",
+  direct: "Entered per team",
+};
+
+// How many scores count towards best-N when an event doesn't say
+export const DEFAULT_TEAM_BEST_COUNT = 2;
+
+export function isTeamScoringMethod(value: string): value is TeamScoringMethod {
+  return (TEAM_SCORING_METHODS as readonly string[]).includes(value);
+}
+
+/**
+ * Read an event's team scoring method, falling back to the default for unknown values
+ * @param value Event.teamScoring as stored in the database
+ */
+export function parseTeamScoringMethod(value: string | null | undefined) {
+  return value && isTeamScoringMethod(value)
+    ? value
+    : DEFAULT_TEAM_SCORING_METHOD;
+}
+
+/**
+ * Human readable summary of an event's team scoring, e.g. "Sum of the best 2 member scores"
+ */
+export function describeTeamScoring(
+  method: TeamScoringMethod,
+  bestCount: number | null | undefined,
+) {
+  return method === "best_n"
+    ? `Sum of the best ${bestCount ?? DEFAULT_TEAM_BEST_COUNT} member scores`
+    : TEAM_SCORING_METHOD_NAMES[method];
+}
@@ -0,0 +1,45 @@
+import { db } from "~/server/db";
+import { processDueGameTransitions } from "~/server/game/scheduler";
+
+const POLL_INTERVAL_MS = 500;
+
+/**
+ * Runs the game scheduler in a loop against the database in DATABASE_URL.
+ * Use this locally, where there's no cron calling /api/cron/game-transitions:
+ *
+ *   npx tsx src/scripts/game-scheduler.ts
+ *
+ * Any number of copies can run alongside the app servers; transitions are claimed
+ * in the database so each one is applied exactly once.
+ */
+async function runScheduler() {
+  let running = true;
+
+  const stop = () => {
+    console.log("Stopping game scheduler...");
+    running = false;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  console.log(
+    `Game scheduler started, polling every ${POLL_INTERVAL_MS}ms. Press Ctrl+C to stop.`,
+  );
+
+  try {
+    while (running) {
+      const applied = await processDueGameTransitions();
+      if (applied > 0) {
+        console.log(`Applied ${applied} game transition(s)`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+runScheduler().catch((error) => {
+  console.error("Game scheduler crashed:", error);
+  process.exit(1);
+});
@@ -7,9 +7,18 @@ async function main() {
   console.log("Seeding database...");
 
   // Clean up existing data
+  console.log("Cleaning up existing leaderboard history...");
+  await db.leaderboardSnapshot.deleteMany({});
+
+  console.log("Cleaning up existing score history...");
+  await db.scoreAuditEntry.deleteMany({});
+
   console.log("Cleaning up existing scores...");
   await db.score.deleteMany({});
 
+  console.log("Cleaning up existing teams...");
+  await db.team.deleteMany({});
+
   console.log("Cleaning up existing participants...");
   await db.participant.deleteMany({});
 
@@ -5,6 +5,9 @@ import { adminRouter } from "~/server/api/routers/admin";
 import { userRouter } from "~/server/api/routers/user";
 import { messageRouter } from "~/server/api/routers/message";
 import { gameRouter } from "~/server/api/routers/game";
+import { disputeRouter } from "~/server/api/routers/dispute";
+import { teamRouter } from "~/server/api/routers/team";
+import { roundRouter } from "~/server/api/routers/round";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
 /**
@@ -20,6 +23,9 @@ export const appRouter = createTRPCRouter({
   user: userRouter,
   message: messageRouter,
   game: gameRouter,
+  dispute: disputeRouter,
+  team: teamRouter,
+  round: roundRouter,
 });
 
 // export type definition of API
@@ -186,4 +186,92 @@ export const adminRouter = createTRPCRouter({
         });
       }
     }),
+
+  // List game runs the anti-cheat checks flagged that no admin has reviewed yet
+  getFlaggedGameRuns: adminProcedure.query(async () => {
+    try {
+      const flaggedRuns = await db.gameParticipant.findMany({
+        where: {
+          isFlagged: true,
+          flagReviewedAt: null,
+        },
+        include: {
+          participant: {
+            select: {
+              id: true,
+              name: true,
+              avatarUrl: true,
+            },
+          },
+          game: {
+            select: {
+              id: true,
+              startedAt: true,
+            },
+          },
+        },
+        orderBy: {
+          flaggedAt: "desc",
+        },
+      });
+
+      return flaggedRuns;
+    } catch (error) {
+      console.error("Unexpected error fetching flagged game runs:", error);
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "An unexpected error occurred while fetching flagged runs",
+      });
+    }
+  }),
+
+  // Mark a flagged game run as reviewed so it drops out of the queue
+  reviewFlaggedGameRun: adminProcedure
+    .input(
+      z.object({
+        gameParticipantId: z.string().uuid(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const run = await db.gameParticipant.findUnique({
+          where: {
+            id: input.gameParticipantId,
+          },
+          select: { id: true },
+        });
+
+        if (!run) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Game run not found",
+          });
+        }
+
+        const data = await db.gameParticipant.update({
+          where: {
+            id: run.id,
+          },
+          data: {
+            flagReviewedAt: new Date(),
+          },
+        });
+
+        return {
+          success: true,
+          message: "Flagged run marked as reviewed",
+          data,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        console.error("Unexpected error reviewing flagged game run:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while reviewing the run",
+        });
+      }
+    }),
 });
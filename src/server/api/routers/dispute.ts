@@ -0,0 +1,319 @@
+import {
+  adminProcedure,
+  createTRPCRouter,
+  protectedProcedure,
+} from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { db } from "~/server/db";
+import { enterScore } from "~/server/scores";
+import { takeLeaderboardSnapshot } from "~/server/leaderboard";
+
+/**
+ * Load an open dispute for an admin to resolve
+ * @throws TRPCError if the dispute doesn't exist or has already been resolved
+ */
+async function getOpenDispute(disputeId: string) {
+  const dispute = await db.scoreDispute.findUnique({
+    where: { id: disputeId },
+    include: {
+      score: {
+        include: {
+          event: { include: { _count: { select: { rounds: true } } } },
+        },
+      },
+    },
+  });
+
+  if (!dispute) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Dispute not found",
+    });
+  }
+
+  if (dispute.status !== "open") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "This dispute has already been resolved",
+    });
+  }
+
+  return dispute;
+}
+
+/**
+ * Close a dispute, as long as no one else has resolved it in the meantime
+ * @param tx Transaction client
+ * @param disputeId Dispute being resolved
+ * @param resolution The outcome and who decided it
+ * @throws TRPCError if the dispute is no longer open
+ */
+async function closeDispute(
+  tx: Prisma.TransactionClient,
+  disputeId: string,
+  resolution: {
+    status: "accepted" | "rejected";
+    adminReply?: string;
+    resolvedById: string;
+  },
+) {
+  const { count } = await tx.scoreDispute.updateMany({
+    where: { id: disputeId, status: "open" },
+    data: { ...resolution, resolvedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "This dispute has already been resolved",
+    });
+  }
+}
+
+export const disputeRouter = createTRPCRouter({
+  // Challenge one of your own scores
+  fileDispute: protectedProcedure
+    .input(
+      z.object({
+        scoreId: z.string().uuid(),
+        message: z
+          .string()
+          .trim()
+          .min(1, "Please explain what's wrong with the score")
+          .max(1000),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const participant = await db.participant.findUnique({
+          where: { userId: ctx.user?.id },
+          select: { id: true },
+        });
+
+        if (!participant) {
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "You must have a participant profile to dispute a score",
+          });
+        }
+
+        const score = await db.score.findUnique({
+          where: { id: input.scoreId },
+        });
+
+        if (score?.participantId !== participant.id) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Score not found",
+          });
+        }
+
+        const openDispute = await db.scoreDispute.findFirst({
+          where: { scoreId: score.id, status: "open" },
+          select: { id: true },
+        });
+
+        if (openDispute) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "You already have an open dispute for this score",
+          });
+        }
+
+        return await db.scoreDispute.create({
+          data: {
+            scoreId: score.id,
+            participantId: participant.id,
+            message: input.message,
+            disputedRank: score.rank,
+            disputedPoints: score.points,
+          },
+        });
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error("Unexpected error filing dispute:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while filing the dispute",
+        });
+      }
+    }),
+
+  // The current user's disputes and how they were resolved
+  getMine: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await db.scoreDispute.findMany({
+        where: { participant: { userId: ctx.user?.id } },
+        include: {
+          score: {
+            select: {
+              rank: true,
+              points: true,
+              event: { select: { id: true, name: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+      });
+    } catch (error) {
+      console.error("Unexpected error fetching disputes:", error);
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "An unexpected error occurred while fetching your disputes",
+      });
+    }
+  }),
+
+  // Open disputes for admins to work through, oldest first
+  getQueue: adminProcedure.query(async () => {
+    try {
+      return await db.scoreDispute.findMany({
+        where: { status: "open" },
+        include: {
+          participant: { select: { id: true, name: true } },
+          score: {
+            select: {
+              rank: true,
+              points: true,
+              method: true,
+              event: { select: { id: true, name: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: "asc" },
+      });
+    } catch (error) {
+      console.error("Unexpected error fetching dispute queue:", error);
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "An unexpected error occurred while fetching disputes",
+      });
+    }
+  }),
+
+  // Uphold a dispute and correct the score through the normal score entry path
+  acceptDispute: adminProcedure
+    .input(
+      z.object({
+        disputeId: z.string().uuid(),
+        correction: z.discriminatedUnion("scoreType", [
+          z.object({
+            scoreType: z.literal("rank"),
+            rank: z.number().int().min(1),
+          }),
+          z.object({
+            scoreType: z.literal("points"),
+            points: z.number().int().min(0),
+          }),
+        ]),
+        reply: z.string().trim().max(1000).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const dispute = await getOpenDispute(input.disputeId);
+
+        // Only scores entered directly can be corrected here; the others would be
+        // overwritten, or turned into a different kind of score
+        if (dispute.score.event._count.rounds > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message:
+              "This event is run in rounds; its scores come from completing the final",
+          });
+        }
+
+        if (dispute.score.method === "game") {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message:
+              "Mini-game scores count games won and can't be corrected by hand",
+          });
+        }
+
+        const score = await db.$transaction(async (tx) => {
+          // Claim the dispute first, so two admins can't both resolve it
+          await closeDispute(tx, dispute.id, {
+            status: "accepted",
+            adminReply: input.reply,
+            resolvedById: ctx.adminParticipantId,
+          });
+
+          const correctedScore = await enterScore(
+            tx,
+            dispute.score.event,
+            dispute.participantId,
+            input.correction,
+            {
+              actorParticipantId: ctx.adminParticipantId,
+              source: "dispute",
+              reason: input.reply
+                ? `Dispute upheld: ${input.reply}`
+                : "Dispute upheld",
+            },
+          );
+
+          await takeLeaderboardSnapshot(tx, {
+            eventId: dispute.score.eventId,
+          });
+
+          return correctedScore;
+        });
+
+        return {
+          success: true,
+          message: `Dispute accepted. The score is now ${score?.points ?? 0} points`,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error("Unexpected error accepting dispute:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while accepting the dispute",
+        });
+      }
+    }),
+
+  // Turn down a dispute, explaining why
+  rejectDispute: adminProcedure
+    .input(
+      z.object({
+        disputeId: z.string().uuid(),
+        reply: z
+          .string()
+          .trim()
+          .min(1, "Please let the participant know why")
+          .max(1000),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const dispute = await getOpenDispute(input.disputeId);
+
+        await db.$transaction((tx) =>
+          closeDispute(tx, dispute.id, {
+            status: "rejected",
+            adminReply: input.reply,
+            resolvedById: ctx.adminParticipantId,
+          }),
+        );
+
+        return { success: true, message: "Dispute rejected" };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error("Unexpected error rejecting dispute:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while rejecting the dispute",
+        });
+      }
+    }),
+});
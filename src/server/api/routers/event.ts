@@ -6,6 +6,36 @@ import {
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { db } from "~/server/db";
+import { parseRankingPolicy, RANKING_POLICIES } from "~/lib/ranking";
+import { parseScoringScheme, scoringSchemeSchema } from "~/lib/scoring";
+import { TEAM_SCORING_METHODS } from "~/lib/teams";
+import { EVENT_STATUSES } from "~/lib/events";
+import { eventChatChannel } from "~/lib/chat";
+import { recomputeEventScores } from "~/server/scores";
+import { takeLeaderboardSnapshot } from "~/server/leaderboard";
+
+// When and where an event happens; null clears a time or the location
+const eventScheduleFields = {
+  startsAt: z.date().nullable().optional(),
+  endsAt: z.date().nullable().optional(),
+  location: z.string().max(100).nullable().optional(),
+  status: z.enum(EVENT_STATUSES).optional(),
+};
+
+/**
+ * @throws TRPCError if the event would end before it starts
+ */
+function assertValidSchedule(input: {
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+}) {
+  if (input.startsAt && input.endsAt && input.endsAt < input.startsAt) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "An event can't end before it starts",
+    });
+  }
+}
 
 export const eventRouter = createTRPCRouter({
   // Get event with scores
@@ -69,9 +99,7 @@ export const eventRouter = createTRPCRouter({
     try {
       // Use Prisma to fetch all events
       const events = await db.event.findMany({
-        orderBy: {
-          order: "asc",
-        },
+        orderBy: [{ order: "asc" }, { startsAt: "asc" }],
       });
 
       return events;
@@ -94,10 +122,17 @@ export const eventRouter = createTRPCRouter({
         name: z.string().min(1, "Event name is required"),
         description: z.string().optional(),
         order: z.number().int().optional(),
+        scoringScheme: scoringSchemeSchema.optional(), // Defaults to 15 - rank
+        rankingPolicy: z.enum(RANKING_POLICIES).optional(),
+        teamScoring: z.enum(TEAM_SCORING_METHODS).optional(),
+        teamBestCount: z.number().int().min(1).nullable().optional(), // For best-N team scoring
+        ...eventScheduleFields,
       }),
     )
     .mutation(async ({ ctx, input }) => {
       try {
+        assertValidSchedule(input);
+
         // Check if an event with this name already exists using Prisma
         const existingEvent = await db.event.findFirst({
           where: {
@@ -121,6 +156,14 @@ export const eventRouter = createTRPCRouter({
             name: input.name,
             description: input.description,
             order: input.order,
+            scoringScheme: input.scoringScheme,
+            rankingPolicy: input.rankingPolicy,
+            teamScoring: input.teamScoring,
+            teamBestCount: input.teamBestCount,
+            startsAt: input.startsAt,
+            endsAt: input.endsAt,
+            location: input.location,
+            status: input.status,
           },
         });
 
@@ -145,10 +188,18 @@ export const eventRouter = createTRPCRouter({
         name: z.string().min(1, "Event name is required"),
         description: z.string().optional(),
         order: z.number().int().optional(),
+        // Changing the scheme or policy recomputes the event's rank-based scores
+        scoringScheme: scoringSchemeSchema.optional(),
+        rankingPolicy: z.enum(RANKING_POLICIES).optional(),
+        teamScoring: z.enum(TEAM_SCORING_METHODS).optional(),
+        teamBestCount: z.number().int().min(1).nullable().optional(),
+        ...eventScheduleFields,
       }),
     )
     .mutation(async ({ ctx, input }) => {
       try {
+        assertValidSchedule(input);
+
         // Check if an event with this name already exists (excluding the current event)
         const existingEvent = await db.event.findFirst({
           where: {
@@ -169,19 +220,56 @@ export const eventRouter = createTRPCRouter({
           });
         }
 
-        // Update the event using Prisma
-        const updatedEvent = await db.event.update({
-          where: {
-            id: input.id,
-          },
-          data: {
-            name: input.name,
-            description: input.description,
-            order: input.order,
-          },
-        });
+        // Update the event and re-score it under its new scheme and policy in one go
+        return await db.$transaction(async (tx) => {
+          const previousEvent = await tx.event.findUniqueOrThrow({
+            where: { id: input.id },
+            select: { rankingPolicy: true },
+          });
+
+          const updatedEvent = await tx.event.update({
+            where: {
+              id: input.id,
+            },
+            data: {
+              name: input.name,
+              description: input.description,
+              order: input.order,
+              scoringScheme: input.scoringScheme,
+              rankingPolicy: input.rankingPolicy,
+              teamScoring: input.teamScoring,
+              teamBestCount: input.teamBestCount,
+              startsAt: input.startsAt,
+              endsAt: input.endsAt,
+              location: input.location,
+              status: input.status,
+            },
+          });
 
-        return updatedEvent;
+          const policyChanged =
+            updatedEvent.rankingPolicy !== previousEvent.rankingPolicy;
+          const recomputedScores =
+            input.scoringScheme || policyChanged
+              ? await recomputeEventScores(
+                  tx,
+                  updatedEvent.id,
+                  parseScoringScheme(updatedEvent.scoringScheme),
+                  parseRankingPolicy(updatedEvent.rankingPolicy),
+                  {
+                    actorParticipantId: ctx.adminParticipantId,
+                    reason: `Scoring for ${updatedEvent.name} changed`,
+                  },
+                  // Switching between standard and dense ranking renumbers the places
+                  { reRank: policyChanged },
+                )
+              : 0;
+
+          if (recomputedScores > 0) {
+            await takeLeaderboardSnapshot(tx, { eventId: updatedEvent.id });
+          }
+
+          return { ...updatedEvent, recomputedScores };
+        });
       } catch (error) {
         if (error instanceof TRPCError) {
           throw error;
@@ -194,6 +282,39 @@ export const eventRouter = createTRPCRouter({
       }
     }),
 
+  // Set the schedule's running order to the given order of events (admin only)
+  reorderEvents: adminProcedure
+    .input(
+      z.object({
+        eventIds: z
+          .array(z.string().uuid())
+          .min(1)
+          .refine((ids) => new Set(ids).size === ids.length, {
+            message: "Each event can only appear once",
+          }),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        await db.$transaction(
+          input.eventIds.map((id, index) =>
+            db.event.update({
+              where: { id },
+              data: { order: index + 1 },
+            }),
+          ),
+        );
+
+        return { success: true, message: "Schedule reordered" };
+      } catch (error) {
+        console.error("Unexpected error reordering events:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while reordering events",
+        });
+      }
+    }),
+
   // Delete an event (admin only)
   deleteEvent: adminProcedure
     .input(
@@ -204,13 +325,20 @@ export const eventRouter = createTRPCRouter({
     .mutation(async ({ ctx, input }) => {
       try {
         // Check if there are any scores associated with this event using Prisma
-        const scoresCount = await db.score.count({
-          where: {
-            eventId: input.id,
-          },
-        });
+        const [scoresCount, teamScoresCount] = await Promise.all([
+          db.score.count({
+            where: {
+              eventId: input.id,
+            },
+          }),
+          db.teamScore.count({
+            where: {
+              eventId: input.id,
+            },
+          }),
+        ]);
 
-        if (scoresCount > 0) {
+        if (scoresCount + teamScoresCount > 0) {
           throw new TRPCError({
             code: "BAD_REQUEST",
             message:
@@ -218,12 +346,19 @@ export const eventRouter = createTRPCRouter({
           });
         }
 
-        // Delete the event using Prisma
-        await db.event.delete({
-          where: {
-            id: input.id,
-          },
-        });
+        // Delete the event and its chat using Prisma
+        await db.$transaction([
+          db.message.deleteMany({
+            where: {
+              channel: eventChatChannel(input.id),
+            },
+          }),
+          db.event.delete({
+            where: {
+              id: input.id,
+            },
+          }),
+        ]);
 
         return { success: true, message: "Event deleted successfully" };
       } catch (error) {
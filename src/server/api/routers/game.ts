@@ -1,48 +1,289 @@
 import { z } from "zod";
 import { createTRPCRouter, publicProcedure, protectedProcedure } from "../trpc";
 import { TRPCError } from "@trpc/server";
-import { Prisma } from "@prisma/client"; // Import Prisma for types if needed, though often inferred
+import type {
+  Game,
+  GameParticipant,
+  Participant,
+  Prisma,
+  PrismaClient,
+} from "@prisma/client";
+import {
+  DEFAULT_COUNTDOWN_MS,
+  DEFAULT_GAME_TYPE,
+  GAME_COUNTDOWN_BOUNDS_MS,
+  GAME_DURATION_BOUNDS_MS,
+  GAME_TYPE_IDS,
+  getGameType,
+  MAX_PLAYERS_BOUNDS,
+  normalizeJoinCode,
+} from "~/lib/games";
+import { gameChatChannel } from "~/lib/chat";
+import {
+  capTapHistogram,
+  checkTapCount,
+  checkTapWindow,
+} from "~/server/game/antiCheat";
+import { finalizeGame } from "~/server/game/finalize";
+import { getServerGameType } from "~/server/game/gameTypes";
+import { generateJoinCode } from "~/server/game/joinCode";
+import { judgeReaction } from "~/server/game/startingGun";
+import {
+  processDueGameTransitions,
+  scheduleGameLifecycle,
+} from "~/server/game/scheduler";
+import {
+  buildTapHistogram,
+  parseTapHistogram,
+  tapEventSchema,
+} from "~/server/game/tapStream";
+
+/**
+ * Flatten a GameParticipant and its Participant into the shape game clients expect
+ * @param type Game.type, which decides how the player's result is read
+ */
+function formatGameParticipant(
+  type: string,
+  gp: GameParticipant & { participant: Participant },
+) {
+  return {
+    id: gp.id,
+    gameId: gp.gameId,
+    participantId: gp.participantId,
+    tapCount: gp.tapCount,
+    tapHistogram: parseTapHistogram(gp.tapHistogram),
+    reactionMs: gp.reactionMs,
+    falseStart: gp.falseStart,
+    isReady: gp.isReady,
+    result: getServerGameType(type).getResult(gp),
+    rank: gp.rank,
+    scoreAwarded: gp.scoreAwarded,
+    name: gp.participant.name,
+    email: gp.participant.email,
+    avatarUrl: gp.participant.avatarUrl,
+  };
+}
+
+/**
+ * Shape a game for its players and the games list, leaving out the lobby's kick list
+ */
+function formatPublicGame<
+  T extends Game & {
+    participants: (GameParticipant & { participant: Participant })[];
+  },
+>({ kickedParticipantIds: _kicked, participants, ...game }: T) {
+  return {
+    ...game,
+    participants: participants.map((gp) =>
+      formatGameParticipant(game.type, gp),
+    ),
+  };
+}
+
+/**
+ * Load a game for a lobby change only its host may make
+ * @param db Prisma client
+ * @param userId The caller's auth user id
+ * @param gameId Game being changed
+ * @throws TRPCError unless the caller hosts the game and it's still waiting to start
+ */
+async function getLobbyForHost(
+  db: PrismaClient,
+  userId: string | undefined,
+  gameId: string,
+) {
+  if (!userId) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "You must be logged in to manage a game",
+    });
+  }
 
-export const gameRouter = createTRPCRouter({
-  // Create a new game
-  createGame: protectedProcedure.mutation(async ({ ctx }) => {
-    if (!ctx.user?.id) {
-      throw new TRPCError({
-        code: "UNAUTHORIZED",
-        message: "You must be logged in to create a game",
-      });
-    }
+  const host = await db.participant.findFirst({ where: { userId } });
+
+  if (!host) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "You must have a participant profile to manage a game",
+    });
+  }
+
+  const game = await db.game.findUnique({
+    where: { id: gameId },
+    include: { _count: { select: { participants: true } } },
+  });
+
+  if (!game) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Game not found" });
+  }
+
+  if (game.hostParticipantId !== host.id) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only the host can manage the lobby",
+    });
+  }
+
+  if (game.status !== "waiting") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "The game has already started",
+    });
+  }
+
+  return { game, host };
+}
+
+// What joining a game needs to know about it
+const joinableGameSelect = {
+  id: true,
+  status: true,
+  isLocked: true,
+  maxPlayers: true,
+  isPrivate: true,
+  kickedParticipantIds: true,
+  _count: { select: { participants: true } },
+} satisfies Prisma.GameSelect;
+
+/**
+ * Add a player to a game's lobby, unless they're already in it
+ * @param db Prisma client
+ * @param participantId Player joining
+ * @param game Game being joined
+ * @throws TRPCError if the game has started, or the host's lobby settings keep the player out
+ */
+async function addPlayerToGame(
+  db: PrismaClient,
+  participantId: string,
+  game: Prisma.GameGetPayload<{ select: typeof joinableGameSelect }>,
+) {
+  if (game.status !== "waiting") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Cannot join a game that has already started",
+    });
+  }
+
+  const existingGameParticipant = await db.gameParticipant.findUnique({
+    where: {
+      gameId_participantId: {
+        gameId: game.id,
+        participantId,
+      },
+    },
+  });
+
+  if (existingGameParticipant) {
+    return { id: game.id, status: game.status }; // Already joined, return basic game info
+  }
+
+  if (game.kickedParticipantIds.includes(participantId)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "The host has removed you from this game",
+    });
+  }
+
+  if (game.isLocked) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "The host has locked this game",
+    });
+  }
 
-    const participant = await ctx.db.participant.findFirst({
-      where: { userId: ctx.user.id },
+  if (game.maxPlayers !== null && game._count.participants >= game.maxPlayers) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "This game is full",
     });
+  }
 
-    if (!participant) {
-      throw new TRPCError({
-        code: "UNAUTHORIZED",
-        message: "You must have a participant profile to create a game",
+  await db.gameParticipant.create({
+    data: {
+      gameId: game.id,
+      participantId,
+      tapCount: 0,
+    },
+  });
+
+  return { id: game.id, status: game.status }; // Basic game info, without the kick list
+}
+
+export const gameRouter = createTRPCRouter({
+  // Create a new game
+  createGame: protectedProcedure
+    .input(
+      z
+        .object({
+          type: z.enum(GAME_TYPE_IDS).default(DEFAULT_GAME_TYPE),
+          // Defaults to the game type's duration
+          durationMs: z
+            .number()
+            .int()
+            .min(GAME_DURATION_BOUNDS_MS.min)
+            .max(GAME_DURATION_BOUNDS_MS.max)
+            .optional(),
+          countdownMs: z
+            .number()
+            .int()
+            .min(GAME_COUNTDOWN_BOUNDS_MS.min)
+            .max(GAME_COUNTDOWN_BOUNDS_MS.max)
+            .default(DEFAULT_COUNTDOWN_MS),
+          // Hide the game from the public list; players join with its code or invite link
+          isPrivate: z.boolean().default(false),
+        })
+        .default({}),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.user?.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "You must be logged in to create a game",
+        });
+      }
+
+      const participant = await ctx.db.participant.findFirst({
+        where: { userId: ctx.user.id },
       });
-    }
 
-    const newGame = await ctx.db.game.create({
-      data: {
-        status: "waiting",
-        participants: {
-          create: {
-            participantId: participant.id,
-            tapCount: 0,
+      if (!participant) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "You must have a participant profile to create a game",
+        });
+      }
+
+      const newGame = await ctx.db.game.create({
+        data: {
+          status: "waiting",
+          type: input.type,
+          durationMs:
+            input.durationMs ?? getGameType(input.type).defaultDurationMs,
+          countdownMs: input.countdownMs,
+          hostParticipantId: participant.id,
+          isPrivate: input.isPrivate,
+          joinCode: input.isPrivate
+            ? { create: { code: await generateJoinCode(ctx.db) } }
+            : undefined,
+          participants: {
+            create: {
+              participantId: participant.id,
+              tapCount: 0,
+            },
           },
         },
-      },
-    });
+      });
 
-    return newGame;
-  }),
+      return newGame;
+    }),
 
   // Get a game by ID
   getGame: publicProcedure
     .input(z.object({ gameId: z.string() }))
     .query(async ({ ctx, input }) => {
+      // Apply any transitions that have fallen due, so polling clients never see a stale status
+      await processDueGameTransitions({ gameId: input.gameId });
+
       const game = await ctx.db.game.findUnique({
         where: { id: input.gameId },
         include: {
@@ -56,6 +297,7 @@ export const gameRouter = createTRPCRouter({
               // e.g. tapCount: 'desc' or by a join timestamp if available
             },
           },
+          joinCode: true,
         },
       });
 
@@ -66,19 +308,21 @@ export const gameRouter = createTRPCRouter({
         });
       }
 
+      const viewer = ctx.user
+        ? await ctx.db.participant.findFirst({
+            where: { userId: ctx.user.id },
+            select: { id: true },
+          })
+        : null;
+      const isHost = !!viewer && viewer.id === game.hostParticipantId;
+
+      // The join code is for the host's eyes only
+      const { joinCode, ...publicGame } = game;
+
       return {
-        ...game,
-        participants: game.participants.map((gp) => ({
-          id: gp.id,
-          gameId: gp.gameId,
-          participantId: gp.participantId,
-          tapCount: gp.tapCount,
-          rank: gp.rank,
-          scoreAwarded: gp.scoreAwarded,
-          name: gp.participant.name,
-          email: gp.participant.email,
-          avatarUrl: gp.participant.avatarUrl,
-        })),
+        ...formatPublicGame(publicGame),
+        joinCode: isHost ? (joinCode?.code ?? null) : null,
+        isKicked: !!viewer && game.kickedParticipantIds.includes(viewer.id),
       };
     }),
 
@@ -87,6 +331,7 @@ export const gameRouter = createTRPCRouter({
     const games = await ctx.db.game.findMany({
       where: {
         status: "waiting", // Only fetch games in 'waiting' state
+        isPrivate: false, // Private games are only joined by code or invite link
       },
       include: {
         participants: {
@@ -100,20 +345,7 @@ export const gameRouter = createTRPCRouter({
       },
     });
 
-    return games.map((game) => ({
-      ...game,
-      participants: game.participants.map((gp) => ({
-        id: gp.id,
-        gameId: gp.gameId,
-        participantId: gp.participantId,
-        tapCount: gp.tapCount,
-        rank: gp.rank,
-        scoreAwarded: gp.scoreAwarded,
-        name: gp.participant.name,
-        email: gp.participant.email,
-        avatarUrl: gp.participant.avatarUrl,
-      })),
-    }));
+    return games.map(formatPublicGame);
   }),
 
   // Join a game
@@ -140,7 +372,7 @@ export const gameRouter = createTRPCRouter({
 
       const game = await ctx.db.game.findUnique({
         where: { id: input.gameId },
-        select: { id: true, status: true }, // Only select needed fields
+        select: joinableGameSelect, // Only select needed fields
       });
 
       if (!game) {
@@ -150,35 +382,68 @@ export const gameRouter = createTRPCRouter({
         });
       }
 
-      if (game.status !== "waiting") {
+      // Game ids aren't secret, so newcomers to a private game need its code
+      if (game.isPrivate) {
+        const existingGameParticipant = await ctx.db.gameParticipant.findUnique(
+          {
+            where: {
+              gameId_participantId: {
+                gameId: game.id,
+                participantId: participant.id,
+              },
+            },
+            select: { id: true },
+          },
+        );
+
+        if (!existingGameParticipant) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "This game is private. Join it with its code",
+          });
+        }
+      }
+
+      return addPlayerToGame(ctx.db, participant.id, game);
+    }),
+
+  // Join a private game with its join code
+  joinGameByCode: protectedProcedure
+    .input(z.object({ code: z.string().min(1).max(20) }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.user?.id) {
         throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: "Cannot join a game that has already started",
+          code: "UNAUTHORIZED",
+          message: "You must be logged in to join a game",
         });
       }
 
-      const existingGameParticipant = await ctx.db.gameParticipant.findUnique({
-        where: {
-          gameId_participantId: {
-            gameId: input.gameId,
-            participantId: participant.id,
-          },
-        },
+      const participant = await ctx.db.participant.findFirst({
+        where: { userId: ctx.user.id },
       });
 
-      if (existingGameParticipant) {
-        return game; // Already joined, return basic game info
+      if (!participant) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "You must have a participant profile to join a game",
+        });
       }
 
-      await ctx.db.gameParticipant.create({
-        data: {
-          gameId: input.gameId,
-          participantId: participant.id,
-          tapCount: 0,
-        },
+      // Codes are removed when a game starts, so this only finds games still in their lobby
+      const joinCode = await ctx.db.gameJoinCode.findUnique({
+        where: { code: normalizeJoinCode(input.code) },
+        select: { game: { select: joinableGameSelect } },
       });
+      const game = joinCode?.game;
+
+      if (!game) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "No game is waiting with that code",
+        });
+      }
 
-      return game; // Return basic game info
+      return addPlayerToGame(ctx.db, participant.id, game);
     }),
 
   // Start a game
@@ -208,7 +473,7 @@ export const gameRouter = createTRPCRouter({
         include: {
           participants: {
             // GameParticipant records
-            select: { participantId: true },
+            select: { participantId: true, isReady: true },
           },
         },
       });
@@ -235,58 +500,388 @@ export const gameRouter = createTRPCRouter({
         });
       }
 
-      const startTime = new Date();
-      startTime.setSeconds(startTime.getSeconds() + 3);
+      // Games created before hosts were recorded can still be started by any player
+      if (
+        game.hostParticipantId &&
+        game.hostParticipantId !== currentUserParticipant.id
+      ) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only the host can start the game",
+        });
+      }
+
+      if (game.requireReady) {
+        // The host starting the game counts as them being ready
+        const notReadyCount = game.participants.filter(
+          (p) => p.participantId !== game.hostParticipantId && !p.isReady,
+        ).length;
+
+        if (notReadyCount > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Waiting for ${notReadyCount} player${notReadyCount === 1 ? "" : "s"} to get ready`,
+          });
+        }
+      }
+
+      const startTime = new Date(Date.now() + game.countdownMs);
+
+      // Move to "starting" and queue the later transitions in one go. The scheduler
+      // (see ~/server/game/scheduler) moves the game on from there, so it doesn't matter
+      // if this server instance goes away before the countdown finishes.
+      const updatedGame = await ctx.db.$transaction(async (tx) => {
+        const { count } = await tx.game.updateMany({
+          where: { id: input.gameId, status: "waiting" }, // Guard against a double start
+          data: { status: "starting", startedAt: startTime },
+        });
+
+        if (count === 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Game has already started",
+          });
+        }
+
+        // The join code expires now that no one else can join
+        await tx.gameJoinCode.deleteMany({ where: { gameId: input.gameId } });
+
+        await scheduleGameLifecycle(
+          tx,
+          input.gameId,
+          startTime,
+          game.durationMs,
+        );
+        // Lobby chat only lasts as long as the lobby. Messages are soft deleted, and any
+        // still waiting on a moderator are left for the report queue.
+        await tx.message.updateMany({
+          where: {
+            channel: gameChatChannel(input.gameId),
+            deletedAt: null,
+            reports: { none: { status: "open" } },
+          },
+          data: { deletedAt: new Date() },
+        });
+        await getServerGameType(game.type).onStart?.(
+          tx,
+          input.gameId,
+          startTime,
+          game.durationMs,
+        );
+
+        return tx.game.findUniqueOrThrow({ where: { id: input.gameId } });
+      });
+
+      return updatedGame;
+    }),
+
+  // Mark yourself ready (or not) in a game's lobby
+  setReady: protectedProcedure
+    .input(z.object({ gameId: z.string(), isReady: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.user?.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "You must be logged in to get ready",
+        });
+      }
+
+      const participant = await ctx.db.participant.findFirst({
+        where: { userId: ctx.user.id },
+      });
+
+      if (!participant) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "You must have a participant profile to get ready",
+        });
+      }
+
+      const updated = await ctx.db.gameParticipant.updateMany({
+        where: {
+          gameId: input.gameId,
+          participantId: participant.id,
+          game: { status: "waiting" },
+        },
+        data: { isReady: input.isReady },
+      });
+
+      if (updated.count === 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "You're not waiting in this game's lobby",
+        });
+      }
+
+      return { isReady: input.isReady };
+    }),
+
+  // Remove a player from the lobby (host only). Kicked players can't rejoin.
+  kickPlayer: protectedProcedure
+    .input(z.object({ gameId: z.string(), participantId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { host } = await getLobbyForHost(
+        ctx.db,
+        ctx.user?.id,
+        input.gameId,
+      );
+
+      if (input.participantId === host.id) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "You can't kick yourself",
+        });
+      }
+
+      await ctx.db.$transaction([
+        ctx.db.gameParticipant.deleteMany({
+          where: { gameId: input.gameId, participantId: input.participantId },
+        }),
+        ctx.db.game.update({
+          where: { id: input.gameId },
+          data: { kickedParticipantIds: { push: input.participantId } },
+        }),
+      ]);
+
+      return { success: true };
+    }),
+
+  // Change who can join the lobby and whether players must ready up (host only)
+  updateLobbySettings: protectedProcedure
+    .input(
+      z.object({
+        gameId: z.string(),
+        isLocked: z.boolean().optional(),
+        maxPlayers: z
+          .number()
+          .int()
+          .min(MAX_PLAYERS_BOUNDS.min)
+          .max(MAX_PLAYERS_BOUNDS.max)
+          .nullable()
+          .optional(), // null for no limit
+        requireReady: z.boolean().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { game } = await getLobbyForHost(
+        ctx.db,
+        ctx.user?.id,
+        input.gameId,
+      );
 
-      const updatedGame = await ctx.db.game.update({
+      if (
+        input.maxPlayers !== undefined &&
+        input.maxPlayers !== null &&
+        input.maxPlayers < game._count.participants
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `There are already ${game._count.participants} players in the lobby`,
+        });
+      }
+
+      return ctx.db.game.update({
         where: { id: input.gameId },
-        data: { status: "starting", startedAt: startTime },
+        data: {
+          isLocked: input.isLocked,
+          maxPlayers: input.maxPlayers,
+          requireReady: input.requireReady,
+        },
+        select: { isLocked: true, maxPlayers: true, requireReady: true },
       });
+    }),
+
+  // Submit batches of timestamped tap events. Retried batches are deduped by their
+  // sequence number, so clients resend anything not yet acknowledged.
+  submitTapEvents: protectedProcedure
+    .input(
+      z.object({
+        gameId: z.string(),
+        batches: z
+          .array(
+            z.object({
+              seq: z.number().int().min(0),
+              taps: z.array(tapEventSchema).max(200),
+            }),
+          )
+          .min(1)
+          .max(50),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.user?.id) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "You must be logged in to submit taps",
+        });
+      }
 
-      setTimeout(() => {
-        void (async () => {
-          try {
-            await ctx.db.game.update({
-              where: { id: input.gameId, status: "starting" }, // Ensure still starting
-              data: { status: "in_progress" },
-            });
-
-            setTimeout(() => {
-              void (async () => {
-                try {
-                  const finishTime = new Date();
-                  await ctx.db.game.update({
-                    where: { id: input.gameId, status: "in_progress" }, // Ensure still in_progress
-                    data: { status: "finished", finishedAt: finishTime },
-                  });
-                } catch (error) {
-                  console.error(
-                    `Error auto-finishing game ${input.gameId}:`,
-                    error,
-                  );
-                }
-              })();
-            }, 10000); // 10 seconds for the game duration
-          } catch (error) {
-            console.error(
-              `Error auto-starting game to in_progress ${input.gameId}:`,
-              error,
-            );
-          }
-        })();
-      }, 3000); // 3 seconds for the countdown
+      const participant = await ctx.db.participant.findFirst({
+        where: { userId: ctx.user.id },
+      });
 
-      return updatedGame;
+      if (!participant) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "You must have a participant profile to submit taps",
+        });
+      }
+
+      await processDueGameTransitions({ gameId: input.gameId });
+
+      const game = await ctx.db.game.findUnique({
+        where: { id: input.gameId },
+        select: { status: true, type: true, startedAt: true, durationMs: true },
+      });
+
+      if (!game) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Game not found" });
+      }
+
+      if (game.type !== "row_harder") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This game doesn't take tap events",
+        });
+      }
+
+      if (game.status !== "in_progress" || !game.startedAt) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Cannot submit taps for a game that is not in progress",
+        });
+      }
+
+      const gameParticipant = await ctx.db.gameParticipant.findUnique({
+        where: {
+          gameId_participantId: {
+            gameId: input.gameId,
+            participantId: participant.id,
+          },
+        },
+      });
+
+      if (!gameParticipant) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "You must be a participant in the game to submit taps",
+        });
+      }
+
+      const now = new Date();
+      const { durationMs } = game;
+      const windowError = checkTapWindow(game.startedAt, durationMs, now);
+
+      if (windowError) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: windowError });
+      }
+
+      // Batches we've already stored (i.e. retries) are skipped
+      await ctx.db.gameTapBatch.createMany({
+        data: input.batches.map((batch) => ({
+          gameParticipantId: gameParticipant.id,
+          seq: batch.seq,
+          tapCount: batch.taps.reduce((sum, tap) => sum + tap.count, 0),
+          events: batch.taps,
+        })),
+        skipDuplicates: true,
+      });
+
+      // Rebuild the count from everything received so far, so the order batches
+      // arrive in doesn't matter
+      const storedBatches = await ctx.db.gameTapBatch.findMany({
+        where: { gameParticipantId: gameParticipant.id },
+        select: { events: true },
+      });
+      const { histogram, flagReason: histogramFlagReason } = capTapHistogram(
+        buildTapHistogram(storedBatches, durationMs),
+      );
+
+      const check = checkTapCount({
+        previousTapCount: gameParticipant.tapCount,
+        tapCount: histogram.reduce((sum, taps) => sum + taps, 0),
+        startedAt: game.startedAt,
+        durationMs,
+        now,
+      });
+
+      if (check.status === "rejected") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: check.reason });
+      }
+
+      const flagReason =
+        histogramFlagReason ??
+        (check.status === "flagged" ? check.reason : null);
+
+      // Only ever move the count forwards, even if submissions race each other
+      await ctx.db.gameParticipant.updateMany({
+        where: { id: gameParticipant.id, tapCount: { lte: check.tapCount } },
+        data: {
+          tapCount: check.tapCount,
+          tapHistogram: histogram,
+          ...(flagReason
+            ? {
+                isFlagged: true,
+                flagReason,
+                flaggedAt: now,
+                flagReviewedAt: null,
+              }
+            : {}),
+        },
+      });
+
+      return {
+        ackedSeqs: input.batches.map((batch) => batch.seq),
+        tapCount: check.tapCount,
+      };
     }),
 
-  // Update tap count
-  updateTapCount: protectedProcedure
-    .input(z.object({ gameId: z.string(), tapCount: z.number().min(0) }))
+  // Check whether a Starting Gun game's signal has fired. The signal time is kept on the
+  // server until it fires, so this answers null until then and clients poll for it.
+  getStartingSignal: protectedProcedure
+    .input(z.object({ gameId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await processDueGameTransitions({ gameId: input.gameId });
+
+      const game = await ctx.db.game.findUnique({
+        where: { id: input.gameId },
+        select: { status: true, type: true, signal: true },
+      });
+
+      if (!game) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Game not found" });
+      }
+
+      if (game.type !== "starting_gun" || !game.signal) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This game doesn't have a starting signal",
+        });
+      }
+
+      if (game.status !== "in_progress" && game.status !== "finished") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The game hasn't started yet",
+        });
+      }
+
+      const { signalAt } = game.signal;
+
+      return { signalAt: signalAt.getTime() <= Date.now() ? signalAt : null };
+    }),
+
+  // Record a Starting Gun tap. The tap is timed by when it reaches the server, and each
+  // player only gets one.
+  submitReaction: protectedProcedure
+    .input(z.object({ gameId: z.string() }))
     .mutation(async ({ ctx, input }) => {
+      const tappedAt = new Date(); // Stamp before any other work, so it isn't counted against the player
+
       if (!ctx.user?.id) {
         throw new TRPCError({
           code: "UNAUTHORIZED",
-          message: "You must be logged in to update tap count",
+          message: "You must be logged in to play",
         });
       }
 
@@ -297,40 +892,83 @@ export const gameRouter = createTRPCRouter({
       if (!participant) {
         throw new TRPCError({
           code: "UNAUTHORIZED",
-          message: "You must have a participant profile to update tap count",
+          message: "You must have a participant profile to play",
         });
       }
 
+      await processDueGameTransitions({ gameId: input.gameId });
+
       const game = await ctx.db.game.findUnique({
         where: { id: input.gameId },
-        select: { status: true },
+        select: {
+          status: true,
+          type: true,
+          startedAt: true,
+          durationMs: true,
+          signal: true,
+        },
       });
 
       if (!game) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Game not found" });
       }
 
-      if (game.status !== "in_progress") {
+      if (game.type !== "starting_gun" || !game.signal) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This game doesn't have a starting signal",
+        });
+      }
+
+      const { durationMs } = game;
+      if (
+        game.status !== "in_progress" ||
+        !game.startedAt ||
+        tappedAt.getTime() < game.startedAt.getTime() ||
+        tappedAt.getTime() > game.startedAt.getTime() + durationMs
+      ) {
         throw new TRPCError({
           code: "BAD_REQUEST",
-          message: "Cannot update tap count for a game that is not in progress",
+          message: "The game is not in progress",
         });
       }
 
-      const updatedGameParticipant = await ctx.db.gameParticipant.update({
+      const gameParticipant = await ctx.db.gameParticipant.findUnique({
         where: {
           gameId_participantId: {
             gameId: input.gameId,
             participantId: participant.id,
           },
         },
-        data: { tapCount: input.tapCount },
       });
 
-      return updatedGameParticipant;
+      if (!gameParticipant) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "You must be a participant in the game to play",
+        });
+      }
+
+      const reaction = judgeReaction(game.signal.signalAt, tappedAt);
+
+      // Only the first tap counts
+      const recorded = await ctx.db.gameParticipant.updateMany({
+        where: { id: gameParticipant.id, reactionMs: null, falseStart: false },
+        data: reaction,
+      });
+
+      if (recorded.count === 0) {
+        // Already tapped; report the tap that counted
+        return ctx.db.gameParticipant.findUniqueOrThrow({
+          where: { id: gameParticipant.id },
+          select: { falseStart: true, reactionMs: true },
+        });
+      }
+
+      return reaction;
     }),
 
-  // Finish a game and calculate results
+  // Finish a game and return its (server-calculated) results
   finishGame: protectedProcedure
     .input(z.object({ gameId: z.string() }))
     .mutation(async ({ ctx, input }) => {
@@ -352,14 +990,14 @@ export const gameRouter = createTRPCRouter({
         });
       }
 
+      await processDueGameTransitions({ gameId: input.gameId });
+
       const game = await ctx.db.game.findUnique({
         where: { id: input.gameId },
         include: {
           participants: {
             // GameParticipant records
-            include: {
-              participant: true, // The actual Participant record
-            },
+            select: { participantId: true },
           },
         },
       });
@@ -371,7 +1009,7 @@ export const gameRouter = createTRPCRouter({
       if (game.status !== "finished") {
         // It's possible the game auto-finished, but this client is trying to finish it.
         // Or, it might be called by an admin or a specific trigger.
-        // For now, let's assume it must be in 'finished' state by the auto-timer.
+        // For now, let's assume it must be in 'finished' state by the scheduler.
         // If manual finishing is allowed earlier, this logic might change.
         throw new TRPCError({
           code: "BAD_REQUEST",
@@ -394,112 +1032,9 @@ export const gameRouter = createTRPCRouter({
         });
       }
 
-      // Map to the structure expected by sorting and points calculation if needed,
-      // or use game.participants directly if structure is compatible.
-      // The original code used a DbGameParticipant structure that included p.name, p.email etc.
-      // Prisma's include gives us game.participants[i].participant.name
-      const gameParticipantsForRanking = game.participants.map((gp) => ({
-        id: gp.id, // GameParticipant ID
-        gameId: gp.gameId,
-        participantId: gp.participantId, // Actual Participant ID
-        tapCount: gp.tapCount,
-        rank: gp.rank,
-        scoreAwarded: gp.scoreAwarded,
-        // Participant details for context if needed, though not directly used in rank/score update below
-        name: gp.participant.name,
-        email: gp.participant.email,
-        avatarUrl: gp.participant.avatarUrl,
-      }));
-
-      const sortedParticipantsRaw = [...gameParticipantsForRanking].sort(
-        (a, b) => b.tapCount - a.tapCount,
-      );
-
-      // Assign ranks considering ties
-      const sortedParticipants = sortedParticipantsRaw.map((p, index, arr) => {
-        let rank = index + 1;
-        if (index > 0 && p.tapCount === arr[index - 1]?.tapCount) {
-          // If current participant's tap count is same as previous, they get the same rank
-          rank = arr[index - 1]?.rank ?? rank;
-        }
-        return { ...p, rank };
-      });
-
-      const hasMultipleParticipants = sortedParticipants.length > 1;
-
-      let rowHarderEvent = await ctx.db.event.findFirst({
-        where: { name: "Row Harder!" },
-      });
-
-      // eslint-disable-next-line @typescript-eslint/prefer-nullish-coalescing
-      if (!rowHarderEvent) {
-        rowHarderEvent = await ctx.db.event.create({
-          data: {
-            name: "Row Harder!",
-            description: "Secret button mashing competition",
-          },
-        });
-      }
-
-      const participantIdsForScoreLookup = sortedParticipants.map(
-        (p) => p.participantId,
-      );
-      const existingScoresForEvent = await ctx.db.score.findMany({
-        where: {
-          participantId: { in: participantIdsForScoreLookup },
-          eventId: rowHarderEvent.id,
-        },
-      });
-      const existingScoresMap = new Map(
-        existingScoresForEvent.map((s) => [
-          `${s.participantId}_${s.eventId}`,
-          s,
-        ]),
-      );
-
-      const transactionOperations: Prisma.PrismaPromise<unknown>[] = [];
-
-      for (const gp of sortedParticipants) {
-        // Iterate over new sortedParticipants with correct ranks
-        const scoreAwarded = hasMultipleParticipants && gp.rank === 1 ? 1 : 0;
-
-        transactionOperations.push(
-          ctx.db.gameParticipant.update({
-            where: { id: gp.id }, // gp.id is GameParticipant's ID
-            data: { rank: gp.rank, scoreAwarded }, // Use gp.rank which handles ties
-          }),
-        );
-
-        const finalPointsAwarded = scoreAwarded; // Use the new scoring logic
-        const existingScore = existingScoresMap.get(
-          `${gp.participantId}_${rowHarderEvent.id}`,
-        );
-
-        if (existingScore) {
-          transactionOperations.push(
-            ctx.db.score.update({
-              where: { id: existingScore.id },
-              data: {
-                points: existingScore.points + finalPointsAwarded,
-                rank: Math.min(existingScore.rank, gp.rank), // Use gp.rank
-              },
-            }),
-          );
-        } else {
-          transactionOperations.push(
-            ctx.db.score.create({
-              data: {
-                participantId: gp.participantId,
-                eventId: rowHarderEvent.id,
-                rank: gp.rank, // Use gp.rank
-                points: finalPointsAwarded,
-              },
-            }),
-          );
-        }
-      }
-
-      await ctx.db.$transaction(transactionOperations);
+      // Results are normally awarded by the scheduler as soon as the game finishes.
+      // This is a no-op if they already have been, so repeat calls can't award points twice.
+      await finalizeGame(input.gameId);
 
       // Return the updated game with participants, similar to getGame
       const finalGameData = await ctx.db.game.findUnique({
@@ -525,19 +1060,6 @@ export const gameRouter = createTRPCRouter({
         });
       }
 
-      return {
-        ...finalGameData,
-        participants: finalGameData.participants.map((gp) => ({
-          id: gp.id,
-          gameId: gp.gameId,
-          participantId: gp.participantId,
-          tapCount: gp.tapCount,
-          rank: gp.rank,
-          scoreAwarded: gp.scoreAwarded,
-          name: gp.participant.name,
-          email: gp.participant.email,
-          avatarUrl: gp.participant.avatarUrl,
-        })),
-      };
+      return formatPublicGame(finalGameData);
     }),
 });
@@ -1,11 +1,288 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
+import type { Prisma } from "@prisma/client";
 import {
+  adminProcedure,
   createTRPCRouter,
   protectedProcedure,
   publicProcedure,
 } from "~/server/api/trpc";
 import { db } from "~/server/db";
+import {
+  GLOBAL_CHAT_CHANNEL,
+  MESSAGE_EDIT_WINDOW_MINUTES,
+  REACTION_EMOJIS,
+  findMentions,
+  isWithinEditWindow,
+  parseChatChannel,
+} from "~/lib/chat";
+
+const chatChannelSchema = z
+  .string()
+  .refine((channel) => parseChatChannel(channel) !== null, {
+    message: "Unknown chat channel",
+  })
+  .default(GLOBAL_CHAT_CHANNEL);
+
+// What the chat needs to render a message
+const chatMessageInclude = {
+  participant: {
+    select: {
+      id: true,
+      name: true,
+      avatarUrl: true,
+    },
+  },
+  reactions: {
+    orderBy: { createdAt: "asc" },
+    select: {
+      emoji: true,
+      participant: { select: { id: true, name: true } },
+    },
+  },
+  replyTo: {
+    select: {
+      id: true,
+      content: true,
+      hiddenAt: true,
+      deletedAt: true,
+      participant: { select: { id: true, name: true } },
+    },
+  },
+  mentions: {
+    select: {
+      participant: { select: { id: true, name: true } },
+    },
+  },
+} satisfies Prisma.MessageInclude;
+
+type ChatMessageRow = Prisma.MessageGetPayload<{
+  include: typeof chatMessageInclude;
+}>;
+
+/**
+ * Shape a message for the chat: reactions are grouped by emoji with who added them,
+ * a quoted message that's since been removed loses its text,
+ * and a deleted message is reduced to its tombstone
+ */
+function toChatMessage(message: ChatMessageRow) {
+  const { replyTo } = message;
+  const isQuoteRemoved = !!(replyTo?.hiddenAt ?? replyTo?.deletedAt);
+  const quoted = replyTo
+    ? {
+        id: replyTo.id,
+        participant: replyTo.participant,
+        content: isQuoteRemoved ? "" : replyTo.content,
+        isRemoved: isQuoteRemoved,
+      }
+    : null;
+  const mentions = message.mentions.map((mention) => mention.participant);
+
+  if (message.deletedAt) {
+    return {
+      ...message,
+      content: "",
+      reactions: [],
+      replyTo: quoted,
+      mentions: [],
+    };
+  }
+
+  const reactions = REACTION_EMOJIS.map((emoji) => {
+    const participants = message.reactions
+      .filter((reaction) => reaction.emoji === emoji)
+      .map((reaction) => reaction.participant);
+
+    return { emoji, count: participants.length, participants };
+  }).filter((reaction) => reaction.count > 0);
+
+  return { ...message, reactions, replyTo: quoted, mentions };
+}
+
+/**
+ * Check a participant can read or post in a chat channel. The global chat is open to everyone
+ * and an event's chat to anyone while the event exists; a game's lobby chat is only for its
+ * players, and closes once the game starts.
+ * @throws TRPCError if the channel's event or game doesn't exist, or the participant can't use it
+ */
+async function assertChannelAccess(
+  channel: string,
+  participantId: string | null,
+  action: "read" | "send",
+) {
+  const parsed = parseChatChannel(channel);
+
+  if (parsed?.type === "event") {
+    const event = await db.event.findUnique({
+      where: { id: parsed.eventId },
+      select: { id: true },
+    });
+
+    if (!event) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Event not found",
+      });
+    }
+  }
+
+  if (parsed?.type === "game") {
+    const game = await db.game.findUnique({
+      where: { id: parsed.gameId },
+      select: {
+        status: true,
+        participants: { select: { participantId: true } },
+      },
+    });
+
+    if (!game) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Game not found",
+      });
+    }
+
+    const isPlayer = game.participants.some(
+      (player) => player.participantId === participantId,
+    );
+    if (!isPlayer) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Only players in this game can use its lobby chat",
+      });
+    }
+
+    if (action === "send" && game.status !== "waiting") {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "The lobby chat closes once the game starts",
+      });
+    }
+  }
+}
+
+/**
+ * Check a participant hasn't been muted by a moderator
+ * @throws TRPCError while the mute lasts
+ */
+function assertNotMuted(participant: { mutedUntil: Date | null }) {
+  if (participant.mutedUntil && participant.mutedUntil > new Date()) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `You've been muted by a moderator until ${participant.mutedUntil.toLocaleTimeString()}`,
+    });
+  }
+}
+
+/**
+ * Participants @mentioned in a message, leaving out its author. Only those who can read
+ * the channel are picked up, so a game's lobby chat can only mention its players.
+ */
+async function getMentionedParticipantIds(
+  content: string,
+  authorId: string,
+  channel: string,
+) {
+  const parsed = parseChatChannel(channel);
+  const participants = await db.participant.findMany({
+    where: {
+      name: { not: null },
+      GameParticipant:
+        parsed?.type === "game"
+          ? { some: { gameId: parsed.gameId } }
+          : undefined,
+    },
+    select: {
+      id: true,
+      name: true,
+    },
+  });
+
+  return findMentions(content, participants).filter((id) => id !== authorId);
+}
+
+/**
+ * The signed-in user's participant id, or null for guests and users without a profile
+ */
+async function findParticipantId(user: { id: string } | null) {
+  if (!user) {
+    return null;
+  }
+
+  const participant = await db.participant.findUnique({
+    where: { userId: user.id },
+    select: { id: true },
+  });
+
+  return participant?.id ?? null;
+}
+
+/**
+ * Load a chat message along with the signed-in participant acting on it
+ * @throws TRPCError if the user isn't a participant or the message doesn't exist
+ */
+async function getMessageForParticipant(
+  user: { id: string } | null,
+  messageId: string,
+) {
+  if (!user) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "You must be logged in to use the chat",
+    });
+  }
+
+  const participant = await db.participant.findUnique({
+    where: {
+      userId: user.id,
+    },
+    select: {
+      id: true,
+      isAdmin: true,
+      mutedUntil: true,
+    },
+  });
+
+  if (!participant) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "You must be a participant to use the chat",
+    });
+  }
+
+  const message = await db.message.findUnique({
+    where: {
+      id: messageId,
+    },
+  });
+
+  if (!message || (message.hiddenAt && !participant.isAdmin)) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Message not found",
+    });
+  }
+
+  return { participant, message };
+}
+
+/**
+ * Mark a message's open reports as handled by a moderator
+ */
+async function resolveReports(
+  messageId: string,
+  status: "actioned" | "dismissed",
+  adminParticipantId: string,
+) {
+  await db.messageReport.updateMany({
+    where: { messageId, status: "open" },
+    data: {
+      status,
+      resolvedById: adminParticipantId,
+      resolvedAt: new Date(),
+    },
+  });
+}
 
 export const messageRouter = createTRPCRouter({
   getMessage: publicProcedure
@@ -14,22 +291,15 @@ export const messageRouter = createTRPCRouter({
         messageId: z.string(),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { messageId } = input;
 
       const message = await db.message.findUnique({
         where: {
           id: messageId,
+          hiddenAt: null,
         },
-        include: {
-          participant: {
-            select: {
-              id: true,
-              name: true,
-              avatarUrl: true,
-            },
-          },
-        },
+        include: chatMessageInclude,
       });
 
       if (!message) {
@@ -39,33 +309,46 @@ export const messageRouter = createTRPCRouter({
         });
       }
 
-      return message;
+      if (message.channel !== GLOBAL_CHAT_CHANNEL) {
+        await assertChannelAccess(
+          message.channel,
+          await findParticipantId(ctx.user),
+          "read",
+        );
+      }
+
+      return toChatMessage(message);
     }),
   getMessages: publicProcedure
     .input(
       z.object({
         limit: z.number().min(1).max(100).default(50),
         cursor: z.string().optional(),
+        channel: chatChannelSchema,
       }),
     )
-    .query(async ({ input }) => {
-      const { limit, cursor } = input;
+    .query(async ({ ctx, input }) => {
+      const { limit, cursor, channel } = input;
+
+      if (channel !== GLOBAL_CHAT_CHANNEL) {
+        await assertChannelAccess(
+          channel,
+          await findParticipantId(ctx.user),
+          "read",
+        );
+      }
 
       const messages = await db.message.findMany({
+        where: {
+          hiddenAt: null,
+          channel,
+        },
         take: limit + 1,
         cursor: cursor ? { id: cursor } : undefined,
         orderBy: {
           createdAt: "desc",
         },
-        include: {
-          participant: {
-            select: {
-              id: true,
-              name: true,
-              avatarUrl: true,
-            },
-          },
-        },
+        include: chatMessageInclude,
       });
 
       let nextCursor: string | undefined = undefined;
@@ -75,7 +358,7 @@ export const messageRouter = createTRPCRouter({
       }
 
       return {
-        messages: messages.reverse(),
+        messages: messages.reverse().map(toChatMessage),
         nextCursor,
       };
     }),
@@ -84,6 +367,8 @@ export const messageRouter = createTRPCRouter({
     .input(
       z.object({
         content: z.string().min(1).max(500),
+        replyToId: z.string().optional(), // Message being replied to
+        channel: chatChannelSchema,
       }),
     )
     .mutation(async ({ ctx, input }) => {
@@ -110,26 +395,257 @@ export const messageRouter = createTRPCRouter({
         });
       }
 
+      assertNotMuted(participant);
+
+      await assertChannelAccess(input.channel, participant.id, "send");
+
+      if (input.replyToId) {
+        const parent = await db.message.findUnique({
+          where: {
+            id: input.replyToId,
+          },
+        });
+
+        if (
+          !parent ||
+          parent.hiddenAt ||
+          parent.deletedAt ||
+          parent.channel !== input.channel
+        ) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "The message you're replying to no longer exists",
+          });
+        }
+      }
+
+      const mentionedIds = await getMentionedParticipantIds(
+        input.content,
+        participant.id,
+        input.channel,
+      );
+
       // Create the message
       const message = await db.message.create({
         data: {
           content: input.content,
           participantId: participant.id,
+          channel: input.channel,
+          replyToId: input.replyToId,
+          mentions: {
+            create: mentionedIds.map((participantId) => ({ participantId })),
+          },
         },
-        include: {
-          participant: {
-            select: {
-              id: true,
-              name: true,
-              avatarUrl: true,
+        include: chatMessageInclude,
+      });
+
+      return toChatMessage(message);
+    }),
+
+  // Change the text of your own message, within a few minutes of sending it
+  editMessage: protectedProcedure
+    .input(
+      z.object({
+        messageId: z.string(),
+        content: z.string().min(1).max(500),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { participant, message } = await getMessageForParticipant(
+        ctx.user,
+        input.messageId,
+      );
+
+      if (message.participantId !== participant.id) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "You can only edit your own messages",
+        });
+      }
+
+      assertNotMuted(participant);
+      await assertChannelAccess(message.channel, participant.id, "send");
+
+      if (message.deletedAt || message.hiddenAt) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This message can no longer be edited",
+        });
+      }
+
+      if (!isWithinEditWindow(message.createdAt)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Messages can only be edited within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending`,
+        });
+      }
+
+      const mentionedIds = await getMentionedParticipantIds(
+        input.content,
+        participant.id,
+        message.channel,
+      );
+
+      // Mentions already seen stay read; anyone newly mentioned gets notified
+      const updatedMessage = await db.message.update({
+        where: {
+          id: message.id,
+        },
+        data: {
+          content: input.content,
+          editedAt: new Date(),
+          mentions: {
+            deleteMany: { participantId: { notIn: mentionedIds } },
+            createMany: {
+              data: mentionedIds.map((participantId) => ({ participantId })),
+              skipDuplicates: true,
             },
           },
         },
+        include: chatMessageInclude,
       });
 
-      return message;
+      return toChatMessage(updatedMessage);
     }),
 
+  // Delete a message, leaving a tombstone in the chat. Authors can delete their own
+  // messages; admins can delete anyone's, which also closes its open reports.
+  deleteMessage: protectedProcedure
+    .input(
+      z.object({
+        messageId: z.string(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { participant, message } = await getMessageForParticipant(
+        ctx.user,
+        input.messageId,
+      );
+
+      const isAuthor = message.participantId === participant.id;
+
+      if (!isAuthor && !participant.isAdmin) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "You can only delete your own messages",
+        });
+      }
+
+      if (message.deletedAt) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This message has already been deleted",
+        });
+      }
+
+      await db.message.update({
+        where: {
+          id: message.id,
+        },
+        data: {
+          deletedAt: new Date(),
+          deletedById: participant.id,
+        },
+      });
+
+      if (participant.isAdmin) {
+        await resolveReports(message.id, "actioned", participant.id);
+      }
+
+      return { success: true, message: "Message deleted" };
+    }),
+
+  // Add an emoji reaction to a message, or take it back if it's already there
+  toggleReaction: protectedProcedure
+    .input(
+      z.object({
+        messageId: z.string(),
+        emoji: z.enum(REACTION_EMOJIS),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { participant, message } = await getMessageForParticipant(
+        ctx.user,
+        input.messageId,
+      );
+
+      if (message.deletedAt) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "You can't react to a deleted message",
+        });
+      }
+
+      assertNotMuted(participant);
+      await assertChannelAccess(message.channel, participant.id, "send");
+
+      const reactionKey = {
+        messageId: message.id,
+        participantId: participant.id,
+        emoji: input.emoji,
+      };
+
+      const existingReaction = await db.messageReaction.findUnique({
+        where: {
+          messageId_participantId_emoji: reactionKey,
+        },
+      });
+
+      if (existingReaction) {
+        await db.messageReaction.deleteMany({
+          where: reactionKey,
+        });
+      } else {
+        // Upsert so a double click can't trip the unique constraint
+        await db.messageReaction.upsert({
+          where: {
+            messageId_participantId_emoji: reactionKey,
+          },
+          create: reactionKey,
+          update: {},
+        });
+      }
+
+      return { success: true, reacted: !existingReaction };
+    }),
+
+  // How many messages mention the signed-in participant that they haven't seen yet
+  getUnreadMentionCount: protectedProcedure.query(async ({ ctx }) => {
+    if (!ctx.user) {
+      return 0;
+    }
+
+    return db.messageMention.count({
+      where: {
+        readAt: null,
+        participant: { userId: ctx.user.id },
+        message: { hiddenAt: null, deletedAt: null },
+      },
+    });
+  }),
+
+  // Clear the signed-in participant's mention badge
+  markMentionsRead: protectedProcedure.mutation(async ({ ctx }) => {
+    if (!ctx.user) {
+      throw new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "You must be logged in to read mentions",
+      });
+    }
+
+    await db.messageMention.updateMany({
+      where: {
+        readAt: null,
+        participant: { userId: ctx.user.id },
+      },
+      data: {
+        readAt: new Date(),
+      },
+    });
+
+    return { success: true };
+  }),
+
   reportMessage: protectedProcedure
     .input(
       z.object({
@@ -168,6 +684,93 @@ export const messageRouter = createTRPCRouter({
         },
       });
 
+      // Hidden and deleted messages have already been dealt with
+      if (!message || message.hiddenAt || message.deletedAt) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Message not found",
+        });
+      }
+
+      if (message.participantId === participant.id) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "You can't report your own message",
+        });
+      }
+
+      const existingReport = await db.messageReport.findUnique({
+        where: {
+          messageId_reporterId: {
+            messageId: message.id,
+            reporterId: participant.id,
+          },
+        },
+      });
+
+      if (existingReport) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "You have already reported this message",
+        });
+      }
+
+      await db.messageReport.create({
+        data: {
+          messageId: message.id,
+          reporterId: participant.id,
+          reason: input.reason,
+        },
+      });
+
+      return {
+        success: true,
+        message: "Message reported successfully",
+      };
+    }),
+
+  // Reported messages awaiting a moderator, oldest report first
+  getReportQueue: adminProcedure.query(async () => {
+    const messages = await db.message.findMany({
+      where: {
+        deletedAt: null,
+        reports: { some: { status: "open" } },
+      },
+      include: {
+        participant: {
+          select: {
+            id: true,
+            name: true,
+            avatarUrl: true,
+            mutedUntil: true,
+          },
+        },
+        reports: {
+          where: { status: "open" },
+          orderBy: { createdAt: "asc" },
+          include: {
+            reporter: { select: { id: true, name: true } },
+          },
+        },
+      },
+    });
+
+    return messages.sort(
+      (a, b) =>
+        (a.reports[0]?.createdAt.getTime() ?? 0) -
+        (b.reports[0]?.createdAt.getTime() ?? 0),
+    );
+  }),
+
+  // Hide a message from the chat and close its reports (admin only)
+  hideMessage: adminProcedure
+    .input(z.object({ messageId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const message = await db.message.findUnique({
+        where: { id: input.messageId },
+        select: { id: true },
+      });
+
       if (!message) {
         throw new TRPCError({
           code: "NOT_FOUND",
@@ -175,15 +778,72 @@ export const messageRouter = createTRPCRouter({
         });
       }
 
-      // In a real application, you would store the report in a database
-      // For now, we'll just log it
-      console.log(
-        `Message ${input.messageId} reported by ${participant.id} for reason: ${input.reason}`,
+      await db.message.update({
+        where: { id: message.id },
+        data: {
+          hiddenAt: new Date(),
+          hiddenById: ctx.adminParticipantId,
+        },
+      });
+      await resolveReports(input.messageId, "actioned", ctx.adminParticipantId);
+
+      return { success: true, message: "Message hidden" };
+    }),
+
+  // Close a message's reports without taking action (admin only)
+  dismissReports: adminProcedure
+    .input(z.object({ messageId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await resolveReports(
+        input.messageId,
+        "dismissed",
+        ctx.adminParticipantId,
       );
 
+      return { success: true, message: "Reports dismissed" };
+    }),
+
+  // Stop a participant sending messages for a while, or lift a mute with 0 minutes (admin only)
+  muteParticipant: adminProcedure
+    .input(
+      z.object({
+        participantId: z.string(),
+        minutes: z
+          .number()
+          .int()
+          .min(0)
+          .max(60 * 24 * 7),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const existing = await db.participant.findUnique({
+        where: { id: input.participantId },
+        select: { id: true },
+      });
+
+      if (!existing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Participant not found",
+        });
+      }
+
+      const participant = await db.participant.update({
+        where: { id: existing.id },
+        data: {
+          mutedUntil:
+            input.minutes > 0
+              ? new Date(Date.now() + input.minutes * 60 * 1000)
+              : null,
+        },
+        select: { name: true, mutedUntil: true },
+      });
+
       return {
         success: true,
-        message: "Message reported successfully",
+        message: participant.mutedUntil
+          ? `${participant.name ?? "Participant"} muted until ${participant.mutedUntil.toLocaleString()}`
+          : `${participant.name ?? "Participant"} unmuted`,
       };
     }),
 });
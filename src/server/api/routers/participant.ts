@@ -7,6 +7,7 @@ import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { db } from "~/server/db";
 import { supabaseAdmin } from "~/server/supabaseAdmin";
+import { getLeaderboardPosition } from "~/server/leaderboard";
 
 export const participantRouter = createTRPCRouter({
   // Validate an invitation token
@@ -74,6 +75,7 @@ export const participantRouter = createTRPCRouter({
           id: true,
           name: true,
           avatarUrl: true,
+          teamId: true,
         },
       });
 
@@ -407,31 +409,9 @@ export const participantRouter = createTRPCRouter({
     )
     .query(async ({ input }) => {
       try {
-        // Get all participants with their total points
-        const participants = await db.participant.findMany({
-          select: {
-            id: true,
-            scores: {
-              select: {
-                points: true,
-              },
-            },
-          },
-        });
-
-        // Calculate total points for each participant
-        const rankedParticipants = participants
-          .map((p) => ({
-            id: p.id,
-            totalPoints: p.scores.reduce((sum, score) => sum + score.points, 0),
-          }))
-          .sort((a, b) => b.totalPoints - a.totalPoints); // Sort by points descending
-
-        // Find the rank of the requested participant
-        const rank =
-          rankedParticipants.findIndex((p) => p.id === input.participantId) + 1;
+        const position = await getLeaderboardPosition(db, input.participantId);
 
-        if (rank === 0) {
+        if (!position) {
           throw new TRPCError({
             code: "NOT_FOUND",
             message: "Participant not found in rankings",
@@ -439,8 +419,8 @@ export const participantRouter = createTRPCRouter({
         }
 
         return {
-          rank,
-          totalParticipants: participants.length,
+          rank: position.rank,
+          totalParticipants: position.totalParticipants,
         };
       } catch (error) {
         console.error("Error getting participant rank:", error);
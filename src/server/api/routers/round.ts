@@ -0,0 +1,388 @@
+import {
+  adminProcedure,
+  createTRPCRouter,
+  publicProcedure,
+} from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { db } from "~/server/db";
+import { parseRankingPolicy } from "~/lib/ranking";
+import { parseScoringScheme } from "~/lib/scoring";
+import { applyEventResults, planEventResults } from "~/server/scores";
+import { takeLeaderboardSnapshot } from "~/server/leaderboard";
+import {
+  advanceRound,
+  getAdvancers,
+  getFinalFinishingOrder,
+  seedHeats,
+} from "~/server/rounds";
+
+/**
+ * Load a round with its event
+ * @throws TRPCError if the round doesn't exist
+ */
+async function getRound(roundId: string) {
+  const round = await db.eventRound.findUnique({
+    where: { id: roundId },
+    include: {
+      event: true,
+      heats: { include: { entries: true } },
+    },
+  });
+
+  if (!round) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Round not found",
+    });
+  }
+
+  return round;
+}
+
+export const roundRouter = createTRPCRouter({
+  // An event's rounds, heats and line-ups, in running order
+  getBracket: publicProcedure
+    .input(z.object({ eventId: z.string().uuid() }))
+    .query(async ({ input }) => {
+      try {
+        return await db.eventRound.findMany({
+          where: { eventId: input.eventId },
+          orderBy: { order: "asc" },
+          include: {
+            heats: {
+              orderBy: { order: "asc" },
+              include: {
+                entries: {
+                  orderBy: [
+                    { place: { sort: "asc", nulls: "last" } },
+                    { lane: "asc" },
+                  ],
+                  include: {
+                    participant: {
+                      select: { id: true, name: true, avatarUrl: true },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        });
+      } catch (error) {
+        console.error("Unexpected error fetching event bracket:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while fetching the bracket",
+        });
+      }
+    }),
+
+  // Add the next round to an event. The first round's line-up is picked by the admin;
+  // later rounds are made up of whoever went through from the round before.
+  createRound: adminProcedure
+    .input(
+      z
+        .object({
+          eventId: z.string().uuid(),
+          name: z.string().trim().min(1, "Round name is required").max(50),
+          heatCount: z.number().int().min(1).max(20),
+          isFinal: z.boolean(),
+          advanceCount: z.number().int().min(1).optional(), // Top N of each heat who go through
+          participantIds: z.array(z.string().uuid()).optional(), // First round only
+        })
+        .refine((input) => input.isFinal || input.advanceCount, {
+          message: "Say how many from each heat go through",
+          path: ["advanceCount"],
+        })
+        .refine((input) => !input.isFinal || input.heatCount === 1, {
+          message: "A final is run as a single heat",
+          path: ["heatCount"],
+        }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const event = await db.event.findUnique({
+          where: { id: input.eventId },
+          select: { id: true },
+        });
+
+        if (!event) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Event not found",
+          });
+        }
+
+        const rounds = await db.eventRound.findMany({
+          where: { eventId: input.eventId },
+          orderBy: { order: "asc" },
+        });
+        const previousRound = rounds[rounds.length - 1];
+
+        if (previousRound?.isFinal) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "This event already has a final",
+          });
+        }
+
+        if (previousRound && previousRound.status !== "completed") {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Finish ${previousRound.name} before adding another round`,
+          });
+        }
+
+        let participantIds: string[];
+
+        if (previousRound) {
+          participantIds = await getAdvancers(db, previousRound.id);
+        } else {
+          participantIds = [...new Set(input.participantIds ?? [])];
+
+          const foundCount = await db.participant.count({
+            where: { id: { in: participantIds } },
+          });
+          if (foundCount !== participantIds.length) {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: "One or more participants not found",
+            });
+          }
+        }
+
+        if (participantIds.length < input.heatCount) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Need at least one participant per heat, but only ${participantIds.length} are in this round`,
+          });
+        }
+
+        const heats = seedHeats(participantIds, input.heatCount);
+
+        return await db.eventRound.create({
+          data: {
+            eventId: input.eventId,
+            name: input.name,
+            order: (previousRound?.order ?? 0) + 1,
+            isFinal: input.isFinal,
+            advanceCount: input.isFinal ? null : input.advanceCount,
+            heats: {
+              create: heats.map((heatParticipantIds, index) => ({
+                name: input.isFinal ? "Final" : `Heat ${index + 1}`,
+                order: index + 1,
+                entries: {
+                  create: heatParticipantIds.map((participantId, lane) => ({
+                    participantId,
+                    lane: lane + 1,
+                  })),
+                },
+              })),
+            },
+          },
+        });
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error("Unexpected error creating round:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while creating the round",
+        });
+      }
+    }),
+
+  // Record finishing places in a heat; null clears a place
+  recordHeatResults: adminProcedure
+    .input(
+      z.object({
+        heatId: z.string().uuid(),
+        places: z.array(
+          z.object({
+            participantId: z.string().uuid(),
+            place: z.number().int().min(1).nullable(),
+          }),
+        ),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const heat = await db.eventHeat.findUnique({
+          where: { id: input.heatId },
+          include: {
+            round: true,
+            entries: { select: { participantId: true } },
+          },
+        });
+
+        if (!heat) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Heat not found",
+          });
+        }
+
+        if (heat.round.status === "completed") {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `${heat.round.name} is already complete`,
+          });
+        }
+
+        const entrantIds = new Set(
+          heat.entries.map((entry) => entry.participantId),
+        );
+        if (
+          input.places.some(
+            ({ participantId }) => !entrantIds.has(participantId),
+          )
+        ) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Some of the participants aren't in ${heat.name}`,
+          });
+        }
+
+        await db.$transaction(
+          input.places.map(({ participantId, place }) =>
+            db.heatEntry.update({
+              where: {
+                heatId_participantId: { heatId: heat.id, participantId },
+              },
+              data: { place },
+            }),
+          ),
+        );
+
+        return { success: true, message: `${heat.name} results saved` };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error("Unexpected error recording heat results:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while saving the heat results",
+        });
+      }
+    }),
+
+  // Close a round once every result is in. Earlier rounds send their top finishers through;
+  // the final sets everyone's leaderboard score for the event.
+  completeRound: adminProcedure
+    .input(
+      z.object({
+        roundId: z.string().uuid(),
+        reason: z.string().max(500).optional(), // Recorded in the score audit log for a final
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const round = await getRound(input.roundId);
+
+        if (round.status === "completed") {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `${round.name} is already complete`,
+          });
+        }
+
+        const missingResults = round.heats.some((heat) =>
+          heat.entries.some((entry) => entry.place === null),
+        );
+        if (missingResults) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Enter a place for everyone before completing the round",
+          });
+        }
+
+        if (!round.isFinal) {
+          await db.$transaction((tx) => advanceRound(tx, round));
+
+          return {
+            success: true,
+            message: `${round.name} complete. The top ${round.advanceCount} of each heat go through`,
+          };
+        }
+
+        await db.$transaction(async (tx) => {
+          const plan = await planEventResults(
+            tx,
+            round.eventId,
+            await getFinalFinishingOrder(tx, round.id),
+            parseScoringScheme(round.event.scoringScheme),
+            parseRankingPolicy(round.event.rankingPolicy),
+          );
+
+          await applyEventResults(tx, round.eventId, plan, {
+            actorParticipantId: ctx.adminParticipantId,
+            reason: input.reason ?? `${round.event.name} ${round.name}`,
+          });
+          await takeLeaderboardSnapshot(tx, { eventId: round.eventId });
+
+          await tx.eventRound.update({
+            where: { id: round.id },
+            data: { status: "completed" },
+          });
+        });
+
+        return {
+          success: true,
+          message: `${round.name} complete. Scores saved for ${round.event.name}`,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error("Unexpected error completing round:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while completing the round",
+        });
+      }
+    }),
+
+  // Remove an event's latest round, e.g. to redo its heats
+  deleteRound: adminProcedure
+    .input(z.object({ roundId: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      try {
+        const round = await getRound(input.roundId);
+
+        const laterRound = await db.eventRound.findFirst({
+          where: { eventId: round.eventId, order: { gt: round.order } },
+          select: { id: true },
+        });
+
+        if (laterRound) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Only the latest round can be removed",
+          });
+        }
+
+        if (round.isFinal && round.status === "completed") {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message:
+              "The final has already been scored. Revert the scores from the score history instead",
+          });
+        }
+
+        await db.eventRound.delete({ where: { id: round.id } });
+
+        return { success: true, message: `${round.name} removed` };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error("Unexpected error deleting round:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while removing the round",
+        });
+      }
+    }),
+});
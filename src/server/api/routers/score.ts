@@ -5,45 +5,146 @@ import {
 } from "~/server/api/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
+import type { Prisma } from "@prisma/client";
 import { db } from "~/server/db";
+import { parseRankingPolicy } from "~/lib/ranking";
+import { parseScoringScheme } from "~/lib/scoring";
+import {
+  applyEventResults,
+  enterScore,
+  planEventResults,
+  revertScoreChange,
+  type ScoreEntry,
+} from "~/server/scores";
+import {
+  getLeaderboard,
+  getRankMovementBaseline,
+  takeLeaderboardSnapshot,
+} from "~/server/leaderboard";
+
+// A whole event's results: participant ids grouped by place, winners first, ties sharing a group
+const eventResultsInput = z.object({
+  eventId: z.string().uuid(),
+  finishingOrder: z
+    .array(z.array(z.string().uuid()).min(1))
+    .min(1)
+    .refine(
+      (groups) => {
+        const ids = groups.flat();
+        return new Set(ids).size === ids.length;
+      },
+      { message: "Each participant can only finish once" },
+    ),
+  reason: z.string().max(500).optional(), // Recorded in the score audit log
+});
+
+/**
+ * Events run in rounds are scored from their final, so their scores can't be entered directly
+ * @throws TRPCError if the event has rounds
+ */
+function assertScoredDirectly(event: { _count: { rounds: number } }) {
+  if (event._count.rounds > 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message:
+        "This event is run in rounds; its scores come from completing the final",
+    });
+  }
+}
+
+/**
+ * Check a set of event results and work out the scores they'd produce
+ * @param tx Prisma client, or the transaction the results will be saved in
+ * @throws TRPCError if the event or any of the participants don't exist, or the event has rounds
+ */
+async function planEventResultsInput(
+  tx: Prisma.TransactionClient,
+  input: z.infer<typeof eventResultsInput>,
+) {
+  const event = await tx.event.findUnique({
+    where: { id: input.eventId },
+    select: {
+      id: true,
+      name: true,
+      scoringScheme: true,
+      rankingPolicy: true,
+      _count: { select: { rounds: true } },
+    },
+  });
+
+  if (!event) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Event not found",
+    });
+  }
+
+  assertScoredDirectly(event);
+
+  const participantIds = input.finishingOrder.flat();
+  const participants = await tx.participant.findMany({
+    where: { id: { in: participantIds } },
+    select: { id: true, name: true },
+  });
+
+  if (participants.length !== participantIds.length) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Some of the participants in the results don't exist",
+    });
+  }
+
+  const { results, removed } = await planEventResults(
+    tx,
+    event.id,
+    input.finishingOrder,
+    parseScoringScheme(event.scoringScheme),
+    parseRankingPolicy(event.rankingPolicy),
+  );
+
+  // Anyone losing their score isn't in the submitted results, so look their names up too
+  const removedParticipants = await tx.participant.findMany({
+    where: { id: { in: removed.map((score) => score.participantId) } },
+    select: { id: true, name: true },
+  });
+  const names = new Map(
+    [...participants, ...removedParticipants].map((p) => [p.id, p.name]),
+  );
+
+  return {
+    event: { id: event.id, name: event.name },
+    results: results.map((result) => ({
+      ...result,
+      name: names.get(result.participantId) ?? null,
+    })),
+    removed: removed.map((score) => ({
+      ...score,
+      name: names.get(score.participantId) ?? null,
+    })),
+  };
+}
 
 export const scoreRouter = createTRPCRouter({
   getLeaderboardData: publicProcedure.query(async ({ ctx }) => {
     try {
-      // 1. Fetch all participants using Prisma
-      const participants = await db.participant.findMany({
-        select: {
-          id: true,
-          name: true,
-          avatarUrl: true,
-        },
-      });
+      const [leaderboard, baseline] = await Promise.all([
+        getLeaderboard(db),
+        getRankMovementBaseline(db),
+      ]);
 
-      // 2. Fetch all scores using Prisma
-      const scores = await db.score.findMany({
-        select: {
-          participantId: true,
-          points: true,
-        },
-      });
+      const baselineRanks = new Map(
+        baseline?.entries.map((entry) => [entry.participantId, entry.rank]),
+      );
 
-      // 3. Aggregate Scores
-      const pointTotals = new Map<string, number>();
-      scores.forEach((score) => {
-        const currentTotal = pointTotals.get(score.participantId) ?? 0;
-        pointTotals.set(score.participantId, currentTotal + score.points);
+      // Places moved since the baseline, positive for climbing; null for new participants
+      return leaderboard.map((participant) => {
+        const previousRank = baselineRanks.get(participant.id);
+        return {
+          ...participant,
+          rankChange:
+            previousRank === undefined ? null : previousRank - participant.rank,
+        };
       });
-
-      // 4. Combine Data
-      const leaderboardData = participants.map((participant) => ({
-        ...participant,
-        totalPoints: pointTotals.get(participant.id) ?? 0,
-      }));
-
-      // 5. Sort
-      leaderboardData.sort((a, b) => b.totalPoints - a.totalPoints);
-
-      return leaderboardData;
     } catch (error) {
       console.error("Unexpected error fetching leaderboard data:", error);
       if (error instanceof TRPCError) {
@@ -62,15 +163,32 @@ export const scoreRouter = createTRPCRouter({
         eventId: z.string().uuid(),
         participantId: z.string().uuid(),
         scoreType: z.enum(["rank", "points"]),
-        rank: z.number().int().min(1).max(14).optional(), // Ensure rank is within bounds
+        rank: z.number().int().min(1).optional(), // Converted to points by the event's scoring scheme
         points: z.number().int().min(0).optional(), // Direct points entry
+        reason: z.string().max(500).optional(), // Recorded in the score audit log
       }),
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        // Calculate points based on input type
-        let points: number;
-        let rank: number;
+        const event = await db.event.findUnique({
+          where: { id: input.eventId },
+          select: {
+            scoringScheme: true,
+            rankingPolicy: true,
+            _count: { select: { rounds: true } },
+          },
+        });
+
+        if (!event) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Event not found",
+          });
+        }
+
+        assertScoredDirectly(event);
+
+        let entry: ScoreEntry;
 
         if (input.scoreType === "rank") {
           if (!input.rank) {
@@ -79,8 +197,7 @@ export const scoreRouter = createTRPCRouter({
               message: "Rank is required when using rank-based scoring",
             });
           }
-          points = 15 - input.rank;
-          rank = input.rank;
+          entry = { scoreType: "rank", rank: input.rank };
         } else {
           // Direct points entry
           if (input.points === undefined) {
@@ -90,28 +207,23 @@ export const scoreRouter = createTRPCRouter({
                 "Points value is required when using direct points entry",
             });
           }
-          points = input.points;
-          rank = 0; // Use 0 as a placeholder for direct points entry
+          entry = { scoreType: "points", points: input.points };
         }
 
-        // Perform upsert operation using Prisma
-        const data = await db.score.upsert({
-          where: {
-            participantId_eventId: {
-              participantId: input.participantId,
-              eventId: input.eventId,
+        const data = await db.$transaction(async (tx) => {
+          const score = await enterScore(
+            tx,
+            { id: input.eventId, ...event },
+            input.participantId,
+            entry,
+            {
+              actorParticipantId: ctx.adminParticipantId,
+              source: "admin_entry",
+              reason: input.reason,
             },
-          },
-          update: {
-            rank: rank,
-            points: points,
-          },
-          create: {
-            eventId: input.eventId,
-            participantId: input.participantId,
-            rank: rank,
-            points: points,
-          },
+          );
+          await takeLeaderboardSnapshot(tx, { eventId: input.eventId });
+          return score;
         });
 
         return {
@@ -132,4 +244,236 @@ export const scoreRouter = createTRPCRouter({
         });
       }
     }),
+
+  // Show the points a full set of event results would award, without saving anything
+  previewEventResults: adminProcedure
+    .input(eventResultsInput)
+    .query(async ({ input }) => {
+      try {
+        return await planEventResultsInput(db, input);
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error("Unexpected error previewing event results:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while previewing the results",
+        });
+      }
+    }),
+
+  // Save a full set of event results, all or nothing
+  submitEventResults: adminProcedure
+    .input(eventResultsInput)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        // Planned in the same transaction, so the results are worked out from the
+        // scores they replace
+        const { event, results, removed } = await db.$transaction(
+          async (tx) => {
+            const plan = await planEventResultsInput(tx, input);
+
+            await applyEventResults(tx, plan.event.id, plan, {
+              actorParticipantId: ctx.adminParticipantId,
+              reason: input.reason,
+            });
+            await takeLeaderboardSnapshot(tx, { eventId: plan.event.id });
+
+            return plan;
+          },
+        );
+
+        return {
+          success: true,
+          message: `Saved results for ${results.length} participant(s) in ${event.name}${
+            removed.length
+              ? `, removing ${removed.length} score(s) left out of the results`
+              : ""
+          }`,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error("Unexpected error saving event results:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while saving the results",
+        });
+      }
+    }),
+
+  // Browse the score audit log, newest first
+  getAuditLog: adminProcedure
+    .input(
+      z.object({
+        eventId: z.string().uuid().optional(),
+        participantId: z.string().uuid().optional(),
+        limit: z.number().min(1).max(100).default(25),
+        cursor: z.string().optional(),
+      }),
+    )
+    .query(async ({ input }) => {
+      try {
+        const { limit, cursor } = input;
+
+        const entries = await db.scoreAuditEntry.findMany({
+          where: {
+            eventId: input.eventId,
+            participantId: input.participantId,
+          },
+          take: limit + 1,
+          cursor: cursor ? { id: cursor } : undefined,
+          orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+          include: {
+            participant: { select: { id: true, name: true } },
+            event: { select: { id: true, name: true } },
+            actor: { select: { id: true, name: true } },
+            reverts: { select: { id: true } },
+          },
+        });
+
+        let nextCursor: string | undefined = undefined;
+        if (entries.length > limit) {
+          const nextItem = entries.pop();
+          nextCursor = nextItem?.id;
+        }
+
+        return { entries, nextCursor };
+      } catch (error) {
+        console.error("Unexpected error fetching score audit log:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while fetching the audit log",
+        });
+      }
+    }),
+
+  // Put a score back how it was before a logged change
+  revertAuditEntry: adminProcedure
+    .input(
+      z.object({
+        entryId: z.string().uuid(),
+        reason: z.string().max(500).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const reverted = await db.$transaction(async (tx) => {
+          const result = await revertScoreChange(tx, input.entryId, {
+            actorParticipantId: ctx.adminParticipantId,
+            reason: input.reason,
+          });
+          if (result) {
+            await takeLeaderboardSnapshot(tx, {
+              eventId: result.entry.eventId,
+            });
+          }
+          return result;
+        });
+
+        if (!reverted) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Audit log entry not found",
+          });
+        }
+
+        return {
+          success: true,
+          message: reverted.score
+            ? `Score put back to ${reverted.score.points} points`
+            : "Score removed",
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error("Unexpected error reverting score change:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while reverting the change",
+        });
+      }
+    }),
+
+  // Snapshot the standings under a name; rank movement is then shown relative to it
+  createLeaderboardCheckpoint: adminProcedure
+    .input(
+      z.object({
+        label: z.string().trim().min(1, "Checkpoint name is required").max(100),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await db.$transaction((tx) =>
+          takeLeaderboardSnapshot(tx, {
+            checkpoint: {
+              label: input.label,
+              createdById: ctx.adminParticipantId,
+            },
+          }),
+        );
+
+        return {
+          success: true,
+          message: `Checkpoint "${input.label}" saved`,
+        };
+      } catch (error) {
+        console.error("Unexpected error saving leaderboard checkpoint:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while saving the checkpoint",
+        });
+      }
+    }),
+
+  // A participant's leaderboard position in each snapshot, oldest first
+  getPositionHistory: publicProcedure
+    .input(
+      z.object({
+        participantId: z.string(),
+        limit: z.number().min(1).max(500).default(100),
+      }),
+    )
+    .query(async ({ input }) => {
+      try {
+        const positions = await db.leaderboardSnapshotEntry.findMany({
+          where: { participantId: input.participantId },
+          orderBy: { snapshot: { createdAt: "desc" } },
+          take: input.limit,
+          select: {
+            rank: true,
+            totalPoints: true,
+            snapshot: {
+              select: {
+                id: true,
+                label: true,
+                isCheckpoint: true,
+                createdAt: true,
+                event: { select: { name: true } },
+                _count: { select: { entries: true } },
+              },
+            },
+          },
+        });
+
+        return positions.reverse().map(({ snapshot, ...position }) => ({
+          ...position,
+          snapshotId: snapshot.id,
+          label: snapshot.label ?? snapshot.event?.name ?? null,
+          isCheckpoint: snapshot.isCheckpoint,
+          createdAt: snapshot.createdAt,
+          totalParticipants: snapshot._count.entries,
+        }));
+      } catch (error) {
+        console.error("Unexpected error fetching position history:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message:
+            "An unexpected error occurred while fetching the position history",
+        });
+      }
+    }),
 });
@@ -0,0 +1,272 @@
+import {
+  adminProcedure,
+  createTRPCRouter,
+  publicProcedure,
+} from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { db } from "~/server/db";
+import { getTeamLeaderboard } from "~/server/leaderboard";
+
+// Team details an admin can set
+const teamInput = z.object({
+  name: z.string().trim().min(1, "Team name is required").max(50),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "Colour must be a hex code like #1e40af")
+    .optional(),
+});
+
+export const teamRouter = createTRPCRouter({
+  // All teams with their members
+  getAll: publicProcedure.query(async () => {
+    try {
+      return await db.team.findMany({
+        include: {
+          members: {
+            select: { id: true, name: true, avatarUrl: true },
+            orderBy: { name: "asc" },
+          },
+        },
+        orderBy: { name: "asc" },
+      });
+    } catch (error) {
+      console.error("Unexpected error fetching teams:", error);
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "An unexpected error occurred while fetching teams",
+      });
+    }
+  }),
+
+  // Team standings, best first
+  getLeaderboard: publicProcedure.query(async () => {
+    try {
+      return await getTeamLeaderboard(db);
+    } catch (error) {
+      console.error("Unexpected error fetching team leaderboard:", error);
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message:
+          "An unexpected error occurred while fetching the team leaderboard",
+      });
+    }
+  }),
+
+  // Create a team (admin only)
+  createTeam: adminProcedure.input(teamInput).mutation(async ({ input }) => {
+    try {
+      const existingTeam = await db.team.findUnique({
+        where: { name: input.name },
+        select: { id: true },
+      });
+
+      if (existingTeam) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `A team called "${input.name}" already exists`,
+        });
+      }
+
+      return await db.team.create({ data: input });
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        throw error;
+      }
+      console.error("Unexpected error creating team:", error);
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "An unexpected error occurred while creating the team",
+      });
+    }
+  }),
+
+  // Rename or recolour a team (admin only)
+  updateTeam: adminProcedure
+    .input(teamInput.extend({ id: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      try {
+        const { id, ...data } = input;
+
+        const existingTeam = await db.team.findFirst({
+          where: { name: data.name, id: { not: id } },
+          select: { id: true },
+        });
+
+        if (existingTeam) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Another team called "${data.name}" already exists`,
+          });
+        }
+
+        return await db.team.update({ where: { id }, data });
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error("Unexpected error updating team:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while updating the team",
+        });
+      }
+    }),
+
+  // Delete a team (admin only). Its members become teamless and its team scores are removed.
+  deleteTeam: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      try {
+        await db.team.delete({ where: { id: input.id } });
+
+        return { success: true, message: "Team deleted" };
+      } catch (error) {
+        console.error("Unexpected error deleting team:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while deleting the team",
+        });
+      }
+    }),
+
+  // Put a participant in a team, or take them out of one with a null teamId (admin only)
+  assignParticipant: adminProcedure
+    .input(
+      z.object({
+        participantId: z.string().uuid(),
+        teamId: z.string().uuid().nullable(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const participant = await db.participant.findUnique({
+          where: { id: input.participantId },
+          select: { id: true },
+        });
+
+        if (!participant) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Participant not found",
+          });
+        }
+
+        if (input.teamId) {
+          const team = await db.team.findUnique({
+            where: { id: input.teamId },
+            select: { id: true },
+          });
+
+          if (!team) {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: "Team not found",
+            });
+          }
+        }
+
+        await db.participant.update({
+          where: { id: input.participantId },
+          data: { teamId: input.teamId },
+        });
+
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error("Unexpected error assigning participant to team:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while assigning the team",
+        });
+      }
+    }),
+
+  // Team scores entered for an event, for events scored per team
+  getEventScores: publicProcedure
+    .input(z.object({ eventId: z.string().uuid() }))
+    .query(async ({ input }) => {
+      try {
+        return await db.teamScore.findMany({
+          where: { eventId: input.eventId },
+          select: { teamId: true, points: true },
+        });
+      } catch (error) {
+        console.error("Unexpected error fetching team scores:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while fetching team scores",
+        });
+      }
+    }),
+
+  // Enter a team's points for an event scored per team, or clear them with null (admin only)
+  setTeamScore: adminProcedure
+    .input(
+      z.object({
+        teamId: z.string().uuid(),
+        eventId: z.string().uuid(),
+        points: z.number().int().min(0).nullable(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const event = await db.event.findUnique({
+          where: { id: input.eventId },
+          select: { name: true, teamScoring: true },
+        });
+
+        if (!event) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Event not found",
+          });
+        }
+
+        if (event.teamScoring !== "direct") {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Team points for ${event.name} come from member scores, so they can't be entered directly`,
+          });
+        }
+
+        const team = await db.team.findUnique({
+          where: { id: input.teamId },
+          select: { id: true },
+        });
+
+        if (!team) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Team not found",
+          });
+        }
+
+        const key = { teamId: input.teamId, eventId: input.eventId };
+
+        if (input.points === null) {
+          await db.teamScore.deleteMany({ where: key });
+          return { success: true, message: "Team score cleared" };
+        }
+
+        await db.teamScore.upsert({
+          where: { teamId_eventId: key },
+          update: { points: input.points },
+          create: { ...key, points: input.points },
+        });
+
+        return { success: true, message: "Team score saved" };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+        console.error("Unexpected error saving team score:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred while saving the team score",
+        });
+      }
+    }),
+});
@@ -164,6 +164,7 @@ export const adminProcedure = protectedProcedure.use(async ({ ctx, next }) => {
       userId: ctx.user.id,
     },
     select: {
+      id: true,
       isAdmin: true,
     },
   });
@@ -175,5 +176,10 @@ export const adminProcedure = protectedProcedure.use(async ({ ctx, next }) => {
     });
   }
 
-  return next({ ctx });
+  return next({
+    ctx: {
+      ...ctx,
+      adminParticipantId: participant.id, // Recorded against the changes the admin makes
+    },
+  });
 });
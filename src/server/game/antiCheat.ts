@@ -0,0 +1,106 @@
+import { TAP_SUBMISSION_GRACE_MS } from "~/server/game/scheduler";
+
+/**
+ * Fastest sustained tapping we consider humanly plausible
+ */
+export const MAX_TAPS_PER_SECOND = 20;
+
+/**
+ * Extra taps allowed on top of the rate cap, to absorb clock skew and bursty input
+ */
+const TAP_BURST_ALLOWANCE = 5;
+
+export type TapCountCheck =
+  | { status: "accepted"; tapCount: number }
+  | { status: "flagged"; tapCount: number; reason: string }
+  | { status: "rejected"; reason: string };
+
+/**
+ * Check that taps are arriving between the start of play and the end of the submission
+ * grace period.
+ * @param startedAt When play began (Game.startedAt)
+ * @param durationMs How long play lasts
+ * @param now When the taps arrived
+ * @returns Why the taps should be rejected, or null if they're in the window
+ */
+export function checkTapWindow(startedAt: Date, durationMs: number, now: Date) {
+  const playEndsAt = startedAt.getTime() + durationMs;
+
+  if (now.getTime() < startedAt.getTime()) {
+    return "The game hasn't started yet";
+  }
+
+  if (now.getTime() > playEndsAt + TAP_SUBMISSION_GRACE_MS) {
+    return "The game is already over";
+  }
+
+  return null;
+}
+
+/**
+ * Decide whether a reported tap count is plausible.
+ *
+ * Counts must only go up and must arrive between the start of play and the end of the
+ * submission grace period. A count above what MAX_TAPS_PER_SECOND allows for the time
+ * played so far is clamped to that ceiling and flagged for an admin to review.
+ * @param options.previousTapCount Count currently stored for the player
+ * @param options.tapCount Count the client reported
+ * @param options.startedAt When play began (Game.startedAt)
+ * @param options.durationMs How long play lasts
+ * @param options.now When the update arrived
+ */
+export function checkTapCount(options: {
+  previousTapCount: number;
+  tapCount: number;
+  startedAt: Date;
+  durationMs: number;
+  now: Date;
+}): TapCountCheck {
+  const { previousTapCount, tapCount, startedAt, durationMs, now } = options;
+  const playEndsAt = startedAt.getTime() + durationMs;
+
+  const windowError = checkTapWindow(startedAt, durationMs, now);
+  if (windowError) {
+    return { status: "rejected", reason: windowError };
+  }
+
+  if (tapCount < previousTapCount) {
+    return {
+      status: "rejected",
+      reason: `Tap count can't go down (had ${previousTapCount}, got ${tapCount})`,
+    };
+  }
+
+  const secondsPlayed =
+    (Math.min(now.getTime(), playEndsAt) - startedAt.getTime()) / 1000;
+  const maxPlausibleTaps =
+    Math.ceil(secondsPlayed * MAX_TAPS_PER_SECOND) + TAP_BURST_ALLOWANCE;
+
+  if (tapCount > maxPlausibleTaps) {
+    return {
+      status: "flagged",
+      tapCount: Math.max(previousTapCount, maxPlausibleTaps),
+      reason: `Reported ${tapCount} taps after ${secondsPlayed.toFixed(1)}s (max plausible ${maxPlausibleTaps})`,
+    };
+  }
+
+  return { status: "accepted", tapCount };
+}
+
+/**
+ * Clamp each second of a tap histogram to MAX_TAPS_PER_SECOND.
+ * @param histogram Taps per second of play
+ * @returns The clamped histogram, and why it was flagged if any second had to be clamped
+ */
+export function capTapHistogram(histogram: number[]) {
+  const fastestSecond = Math.max(0, ...histogram);
+  const capped = histogram.map((taps) => Math.min(taps, MAX_TAPS_PER_SECOND));
+
+  return {
+    histogram: capped,
+    flagReason:
+      fastestSecond > MAX_TAPS_PER_SECOND
+        ? `Reported ${fastestSecond} taps in a single second (max plausible ${MAX_TAPS_PER_SECOND})`
+        : null,
+  };
+}
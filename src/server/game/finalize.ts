@@ -0,0 +1,126 @@
+import { parseRankingPolicy } from "~/lib/ranking";
+import { db } from "~/server/db";
+import { setScore } from "~/server/scores";
+import { takeLeaderboardSnapshot } from "~/server/leaderboard";
+import {
+  getServerGameType,
+  rankGameParticipants,
+} from "~/server/game/gameTypes";
+
+/**
+ * Rank a finished game's players and award their points, exactly once per game.
+ *
+ * The game is claimed by setting `scoredAt` in the same transaction that writes the results,
+ * so concurrent or repeated calls (the scheduler, several clients calling finishGame) can't add
+ * points to a `Score` twice. If the transaction fails the claim rolls back and a later call retries.
+ * @param gameId Game to finalise
+ * @returns true if this call scored the game, false if it was already scored or isn't finished
+ */
+export async function finalizeGame(gameId: string) {
+  return db.$transaction(async (tx) => {
+    const claim = await tx.game.updateMany({
+      where: { id: gameId, status: "finished", scoredAt: null },
+      data: { scoredAt: new Date() },
+    });
+
+    if (claim.count === 0) {
+      return false;
+    }
+
+    const game = await tx.game.findUniqueOrThrow({
+      where: { id: gameId },
+      include: { participants: true },
+    });
+    const gameType = getServerGameType(game.type);
+
+    const gameEvent = await tx.event.upsert({
+      where: { name: gameType.eventName },
+      update: {},
+      create: {
+        name: gameType.eventName,
+        description: gameType.eventDescription,
+      },
+    });
+
+    // Rank by the game type's result, with ties ranked by the event's policy
+    const rankedParticipants = rankGameParticipants(
+      game.type,
+      game.participants,
+      parseRankingPolicy(gameEvent.rankingPolicy),
+    );
+
+    const hasMultipleParticipants = rankedParticipants.length > 1;
+
+    for (const gp of rankedParticipants) {
+      // Winning a game with at least one opponent earns a point; a false start or
+      // no tap at all never wins, even if nobody else recorded a result either
+      const scoreAwarded =
+        hasMultipleParticipants && gp.result !== null && gp.rank === 1 ? 1 : 0;
+
+      await tx.gameParticipant.update({
+        where: { id: gp.id },
+        data: { rank: gp.rank, scoreAwarded },
+      });
+
+      const scoreKey = {
+        participantId: gp.participantId,
+        eventId: gameEvent.id,
+      };
+      const existingScore = await tx.score.findUnique({
+        where: { participantId_eventId: scoreKey },
+      });
+
+      await setScore(
+        tx,
+        scoreKey,
+        {
+          points: (existingScore?.points ?? 0) + scoreAwarded,
+          // Keep their best finish
+          rank: existingScore ? Math.min(existingScore.rank, gp.rank) : gp.rank,
+          method: "game", // Counts games won, so the event's scoring scheme doesn't apply
+        },
+        {
+          actorParticipantId: null,
+          source: "game",
+          reason: `${gameType.name} game ${gameId}`,
+        },
+      );
+    }
+
+    await takeLeaderboardSnapshot(tx, { eventId: gameEvent.id });
+
+    return true;
+  });
+}
+
+/**
+ * Finalise any games that have finished but not been scored yet, e.g. because the
+ * scorer crashed part way through or nobody had the game open when it ended.
+ * @param options.gameId Only consider this game
+ * @returns The number of games this call scored
+ */
+export async function finalizeFinishedGames(options: { gameId?: string } = {}) {
+  const unscoredGames = await db.game.findMany({
+    where: {
+      status: "finished",
+      scoredAt: null,
+      ...(options.gameId ? { id: options.gameId } : {}),
+    },
+    select: { id: true },
+    take: 20,
+  });
+
+  let scored = 0;
+
+  for (const game of unscoredGames) {
+    try {
+      if (await finalizeGame(game.id)) {
+        scored += 1;
+      }
+    } catch (error) {
+      console.error(`[GameScheduler] Error finalising game ${game.id}:`, error);
+    }
+  }
+
+  return scored;
+}
@@ -0,0 +1,95 @@
+import type { GameParticipant, Prisma } from "@prisma/client";
+import {
+  DEFAULT_GAME_TYPE,
+  getGameType,
+  isGameTypeId,
+  type GameTypeDefinition,
+  type GameTypeId,
+} from "~/lib/games";
+import { groupTies, rankTiedGroups, type RankingPolicy } from "~/lib/ranking";
+import { scheduleStartingSignal } from "~/server/game/startingGun";
+
+/**
+ * Server-side half of a game type (see ~/lib/games for the shared half)
+ */
+interface ServerGameType {
+  /**
+   * Read a player's result from their GameParticipant row
+   * @returns The result, or null if the player didn't record a valid one
+   */
+  getResult: (gameParticipant: GameParticipant) => number | null;
+  /**
+   * Set up anything the game type needs when a game starts, in the same transaction that
+   * moves it to "starting"
+   */
+  onStart?: (
+    tx: Prisma.TransactionClient,
+    gameId: string,
+    startsAt: Date,
+    durationMs: number,
+  ) => Promise<void>;
+}
+
+const SERVER_GAME_TYPES: Record<GameTypeId, ServerGameType> = {
+  row_harder: {
+    getResult: (gp) => gp.tapCount,
+  },
+  starting_gun: {
+    // False starts and players who never tapped have no valid time, so rank last
+    getResult: (gp) => (gp.falseStart ? null : gp.reactionMs),
+    onStart: scheduleStartingSignal,
+  },
+};
+
+/**
+ * Look up everything the server needs to know about a game type
+ * @param type Game.type as stored in the database
+ */
+export function getServerGameType(
+  type: string,
+): GameTypeDefinition & ServerGameType {
+  return {
+    ...getGameType(type),
+    ...SERVER_GAME_TYPES[isGameTypeId(type) ? type : DEFAULT_GAME_TYPE],
+  };
+}
+
+/**
+ * Rank players by their results according to the game type's ranking.
+ * Equal results tie. Players without a valid result are placed after everyone who has one,
+ * sharing last place in the field, so they're never ranked as winners.
+ * @param type Game.type of the game being ranked
+ * @param gameParticipants The game's players
+ * @param policy Ranking policy of the game's event, which decides how ties are ranked
+ */
+export function rankGameParticipants<T extends GameParticipant>(
+  type: string,
+  gameParticipants: T[],
+  policy: RankingPolicy,
+) {
+  const gameType = getServerGameType(type);
+  const direction = gameType.ranking === "highest_wins" ? -1 : 1;
+
+  const results = gameParticipants.map((gp) => ({
+    ...gp,
+    result: gameType.getResult(gp),
+  }));
+  const finishers = results.filter((entry) => entry.result !== null);
+  const nonFinishers = results.filter((entry) => entry.result === null);
+
+  const groups = groupTies(
+    finishers,
+    (a, b) => ((a.result ?? 0) - (b.result ?? 0)) * direction,
+  );
+
+  return [
+    ...rankTiedGroups(groups, policy).map(({ entry, rank }) => ({
+      ...entry,
+      rank,
+    })),
+    ...nonFinishers.map((entry) => ({
+      ...entry,
+      rank: gameParticipants.length,
+    })),
+  ];
+}
@@ -0,0 +1,37 @@
+import type { PrismaClient } from "@prisma/client";
+import { randomInt } from "crypto";
+import { JOIN_CODE_ALPHABET, JOIN_CODE_LENGTH } from "~/lib/games";
+
+/**
+ * Attempts at finding an unused code before giving up
+ */
+const MAX_ATTEMPTS = 10;
+
+function randomJoinCode() {
+  return Array.from(
+    { length: JOIN_CODE_LENGTH },
+    () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)],
+  ).join("");
+}
+
+/**
+ * Pick a join code for a private game that no waiting game is using.
+ * Codes are removed when a game starts, so they're free to be handed out again afterwards.
+ * @param db Prisma client
+ * @throws Error if no unused code turns up, which would mean far too many waiting games
+ */
+export async function generateJoinCode(db: PrismaClient) {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const code = randomJoinCode();
+    const existing = await db.gameJoinCode.findUnique({
+      where: { code },
+      select: { gameId: true },
+    });
+
+    if (!existing) {
+      return code;
+    }
+  }
+
+  throw new Error("Couldn't find an unused join code");
+}
@@ -0,0 +1,122 @@
+import type { Prisma } from "@prisma/client";
+import { db } from "~/server/db";
+import { finalizeFinishedGames } from "~/server/game/finalize";
+
+/**
+ * How long after play ends we keep accepting tap updates that were in flight,
+ * before the game is closed and scored
+ */
+export const TAP_SUBMISSION_GRACE_MS = 1500;
+
+/**
+ * Queue the status changes for a game that has just moved to "starting".
+ *
+ * The transitions are stored in the database rather than held in memory, so they survive the
+ * serverless function (or server) that started the game going away.
+ * @param tx Transaction client, so the transitions are queued atomically with the status change
+ * @param gameId Game to schedule
+ * @param startsAt When the countdown ends and play begins
+ * @param durationMs How long play lasts (Game.durationMs)
+ */
+export async function scheduleGameLifecycle(
+  tx: Prisma.TransactionClient,
+  gameId: string,
+  startsAt: Date,
+  durationMs: number,
+) {
+  const closesAt = new Date(
+    startsAt.getTime() + durationMs + TAP_SUBMISSION_GRACE_MS,
+  );
+
+  await tx.gameTransition.createMany({
+    data: [
+      {
+        gameId,
+        fromStatus: "starting",
+        toStatus: "in_progress",
+        dueAt: startsAt,
+      },
+      {
+        gameId,
+        fromStatus: "in_progress",
+        toStatus: "finished",
+        dueAt: closesAt,
+      },
+    ],
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Apply every queued transition that has fallen due.
+ *
+ * Safe to call from any number of server instances at once: each transition is claimed with a
+ * conditional update inside the same transaction that applies it, so exactly one caller wins.
+ * A transition whose game is no longer in the expected state is marked processed and skipped.
+ * Games that end up finished are then scored (see finalizeGame).
+ * @param options.gameId Only process transitions for this game
+ * @param options.now Override the current time (defaults to now)
+ * @returns The number of transitions this call applied
+ */
+export async function processDueGameTransitions(
+  options: { gameId?: string; now?: Date } = {},
+) {
+  const now = options.now ?? new Date();
+
+  const dueTransitions = await db.gameTransition.findMany({
+    where: {
+      processedAt: null,
+      dueAt: { lte: now },
+      ...(options.gameId ? { gameId: options.gameId } : {}),
+    },
+    orderBy: { dueAt: "asc" },
+    take: 100,
+  });
+
+  let applied = 0;
+
+  for (const transition of dueTransitions) {
+    try {
+      const claimed = await db.$transaction(async (tx) => {
+        const claim = await tx.gameTransition.updateMany({
+          where: { id: transition.id, processedAt: null },
+          data: { processedAt: now },
+        });
+
+        if (claim.count === 0) {
+          return false; // Another instance got there first
+        }
+
+        await tx.game.updateMany({
+          where: { id: transition.gameId, status: transition.fromStatus },
+          data: {
+            status: transition.toStatus,
+            // Record when play ended, not when we got round to closing the game
+            ...(transition.toStatus === "finished"
+              ? {
+                  finishedAt: new Date(
+                    transition.dueAt.getTime() - TAP_SUBMISSION_GRACE_MS,
+                  ),
+                }
+              : {}),
+          },
+        });
+
+        return true;
+      });
+
+      if (claimed) {
+        applied += 1;
+      }
+    } catch (error) {
+      console.error(
+        `[GameScheduler] Error applying transition ${transition.id} (${transition.fromStatus} -> ${transition.toStatus}) for game ${transition.gameId}:`,
+        error,
+      );
+    }
+  }
+
+  await finalizeFinishedGames({ gameId: options.gameId });
+
+  return applied;
+}
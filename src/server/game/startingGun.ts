@@ -0,0 +1,53 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Earliest the signal can fire after play begins
+ */
+export const MIN_SIGNAL_DELAY_MS = 1500;
+
+/**
+ * Time players always get to react once the signal has fired
+ */
+export const REACTION_WINDOW_MS = 3000;
+
+/**
+ * Pick a random moment for a Starting Gun game's signal and store it.
+ * @param tx Transaction client, so the signal is stored atomically with the game starting
+ * @param gameId Game that's starting
+ * @param startsAt When the countdown ends and play begins
+ * @param durationMs How long play lasts
+ */
+export async function scheduleStartingSignal(
+  tx: Prisma.TransactionClient,
+  gameId: string,
+  startsAt: Date,
+  durationMs: number,
+) {
+  const maxDelay = Math.max(
+    MIN_SIGNAL_DELAY_MS,
+    durationMs - REACTION_WINDOW_MS,
+  );
+  const delay =
+    MIN_SIGNAL_DELAY_MS + Math.random() * (maxDelay - MIN_SIGNAL_DELAY_MS);
+
+  await tx.gameSignal.create({
+    data: {
+      gameId,
+      signalAt: new Date(startsAt.getTime() + Math.round(delay)),
+    },
+  });
+}
+
+/**
+ * Work out a player's reaction from when their tap reached the server.
+ * Both times are the server's own, so client clock skew can't help or hurt anyone.
+ * @param signalAt When the signal fired
+ * @param tappedAt When the tap arrived
+ */
+export function judgeReaction(signalAt: Date, tappedAt: Date) {
+  const reactionMs = tappedAt.getTime() - signalAt.getTime();
+
+  return reactionMs < 0
+    ? { falseStart: true, reactionMs: null }
+    : { falseStart: false, reactionMs };
+}
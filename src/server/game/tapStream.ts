@@ -0,0 +1,53 @@
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+
+/**
+ * A number of taps a client registered at one moment, relative to when it started playing
+ */
+export const tapEventSchema = z.object({
+  at: z.number().int().min(0), // ms since play started (Game.startedAt)
+  count: z.number().int().min(1).max(100),
+});
+
+export type TapEvent = z.infer<typeof tapEventSchema>;
+
+/**
+ * Read tap events back out of a stored batch, skipping anything malformed
+ */
+export function parseTapEvents(value: Prisma.JsonValue): TapEvent[] {
+  const parsed = z.array(tapEventSchema).safeParse(value);
+  return parsed.success ? parsed.data : [];
+}
+
+/**
+ * Read a stored GameParticipant.tapHistogram, defaulting to an empty histogram
+ */
+export function parseTapHistogram(value: Prisma.JsonValue | null): number[] {
+  const parsed = z.array(z.number()).safeParse(value);
+  return parsed.success ? parsed.data : [];
+}
+
+/**
+ * Rebuild a player's taps per second of play from every batch their client sent.
+ * Events are bucketed by the client's own timestamps, clamped into the game's duration.
+ * @param batches The player's stored tap batches
+ * @param durationMs How long play lasts
+ */
+export function buildTapHistogram(
+  batches: { events: Prisma.JsonValue }[],
+  durationMs: number,
+) {
+  const histogram = new Array<number>(Math.ceil(durationMs / 1000)).fill(0);
+
+  for (const batch of batches) {
+    for (const event of parseTapEvents(batch.events)) {
+      const second = Math.min(
+        histogram.length - 1,
+        Math.floor(event.at / 1000),
+      );
+      histogram[second] = (histogram[second] ?? 0) + event.count;
+    }
+  }
+
+  return histogram;
+}
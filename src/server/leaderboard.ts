@@ -0,0 +1,234 @@
+import { Prisma } from "@prisma/client";
+import { DEFAULT_TEAM_BEST_COUNT } from "~/lib/teams";
+
+/**
+ * A participant's place on the leaderboard
+ */
+export interface LeaderboardEntry {
+  id: string;
+  name: string | null;
+  avatarUrl: string | null;
+  totalPoints: number;
+  rank: number; // Participants level on points share a rank ("1, 2, 2, 4")
+}
+
+// Every participant's total points and rank, summed and ranked by the database
+const rankedParticipants = Prisma.sql`
+  SELECT
+    p.id,
+    p.name,
+    p.avatar_url AS "avatarUrl",
+    COALESCE(SUM(s.points), 0)::int AS "totalPoints",
+    RANK() OVER (ORDER BY COALESCE(SUM(s.points), 0) DESC)::int AS rank
+  FROM participants p
+  LEFT JOIN scores s ON s.participant_id = p.id
+  GROUP BY p.id
+`;
+
+/**
+ * Everyone's total points, best first
+ * @param tx Prisma client or transaction client
+ */
+export async function getLeaderboard(tx: Prisma.TransactionClient) {
+  return tx.$queryRaw<LeaderboardEntry[]>`
+    SELECT * FROM (${rankedParticipants}) leaderboard
+    ORDER BY rank, name NULLS LAST, id
+  `;
+}
+
+/**
+ * One participant's place on the leaderboard
+ * @param tx Prisma client or transaction client
+ * @param participantId Participant to look up
+ * @returns Their entry and how many participants are ranked, or null if they don't exist
+ */
+export async function getLeaderboardPosition(
+  tx: Prisma.TransactionClient,
+  participantId: string,
+) {
+  const [position] = await tx.$queryRaw<
+    (LeaderboardEntry & { totalParticipants: number })[]
+  >`
+    SELECT *, (SELECT COUNT(*) FROM participants)::int AS "totalParticipants"
+    FROM (${rankedParticipants}) leaderboard
+    WHERE id = ${participantId}
+  `;
+
+  return position ?? null;
+}
+
+/**
+ * Record the current standings. Called after every score change, inside the same transaction,
+ * and by admins to mark checkpoints.
+ * @param tx Transaction client
+ * @param options.eventId Event whose scores just changed
+ * @param options.checkpoint Label and creator for an admin checkpoint
+ * @returns The snapshot, or null if the standings haven't changed since the last one
+ */
+export async function takeLeaderboardSnapshot(
+  tx: Prisma.TransactionClient,
+  options: {
+    eventId?: string | null;
+    checkpoint?: { label: string; createdById: string };
+  },
+) {
+  const leaderboard = await getLeaderboard(tx);
+
+  if (!options.checkpoint) {
+    // Skip snapshots that would repeat the last one, e.g. after a change that was a no-op
+    const latest = await tx.leaderboardSnapshot.findFirst({
+      orderBy: { createdAt: "desc" },
+      select: {
+        entries: { select: { participantId: true, totalPoints: true } },
+      },
+    });
+    const latestTotals = new Map(
+      latest?.entries.map((entry) => [entry.participantId, entry.totalPoints]),
+    );
+
+    if (
+      latest?.entries.length === leaderboard.length &&
+      leaderboard.every(
+        (entry) => latestTotals.get(entry.id) === entry.totalPoints,
+      )
+    ) {
+      return null;
+    }
+  }
+
+  return tx.leaderboardSnapshot.create({
+    data: {
+      eventId: options.eventId,
+      isCheckpoint: !!options.checkpoint,
+      label: options.checkpoint?.label,
+      createdById: options.checkpoint?.createdById,
+      entries: {
+        createMany: {
+          data: leaderboard.map((entry) => ({
+            participantId: entry.id,
+            rank: entry.rank,
+            totalPoints: entry.totalPoints,
+          })),
+        },
+      },
+    },
+  });
+}
+
+/**
+ * The snapshot rank movement is measured against: the latest admin checkpoint if there is one,
+ * otherwise the standings from before the most recently scored event's results came in
+ * @param tx Prisma client or transaction client
+ * @returns Each participant's rank in that snapshot, or null if there's nothing to compare with
+ */
+export async function getRankMovementBaseline(tx: Prisma.TransactionClient) {
+  const baselineSelect = {
+    id: true,
+    label: true,
+    createdAt: true,
+    event: { select: { name: true } },
+    entries: { select: { participantId: true, rank: true } },
+  } satisfies Prisma.LeaderboardSnapshotSelect;
+
+  const checkpoint = await tx.leaderboardSnapshot.findFirst({
+    where: { isCheckpoint: true },
+    orderBy: { createdAt: "desc" },
+    select: baselineSelect,
+  });
+
+  if (checkpoint) {
+    return checkpoint;
+  }
+
+  const latest = await tx.leaderboardSnapshot.findFirst({
+    orderBy: { createdAt: "desc" },
+    select: { eventId: true, createdAt: true },
+  });
+
+  if (!latest) {
+    return null;
+  }
+
+  // The last snapshot for a different event is how things stood before the latest event's
+  // run of score changes started
+  return tx.leaderboardSnapshot.findFirst({
+    where: {
+      createdAt: { lt: latest.createdAt },
+      OR: [{ eventId: null }, { eventId: { not: latest.eventId } }],
+    },
+    orderBy: { createdAt: "desc" },
+    select: baselineSelect,
+  });
+}
+
+/**
+ * A team's place on the team leaderboard
+ */
+export interface TeamLeaderboardEntry {
+  id: string;
+  name: string;
+  color: string | null;
+  memberCount: number;
+  totalPoints: number;
+  rank: number;
+}
+
+/**
+ * Every team's total points, best first. Each event's team points are worked out with the
+ * event's team scoring method (see src/lib/teams.ts): from the scores of the team's members,
+ * or from the team score an admin entered directly.
+ * @param tx Prisma client or transaction client
+ */
+export async function getTeamLeaderboard(tx: Prisma.TransactionClient) {
+  return tx.$queryRaw<TeamLeaderboardEntry[]>`
+    WITH member_scores AS (
+      SELECT
+        p.team_id,
+        s.event_id,
+        s.points,
+        ROW_NUMBER() OVER (
+          PARTITION BY p.team_id, s.event_id ORDER BY s.points DESC
+        ) AS position
+      FROM scores s
+      JOIN participants p ON p.id = s.participant_id
+      WHERE p.team_id IS NOT NULL
+    ),
+    team_event_points AS (
+      SELECT
+        ms.team_id,
+        CASE e.team_scoring
+          WHEN 'average' THEN ROUND(AVG(ms.points))
+          WHEN 'best_n' THEN COALESCE(
+            SUM(ms.points) FILTER (
+              WHERE ms.position <= COALESCE(e.team_best_count, ${DEFAULT_TEAM_BEST_COUNT})
+            ),
+            0
+          )
+          ELSE SUM(ms.points)
+        END AS points
+      FROM member_scores ms
+      JOIN events e ON e.id = ms.event_id
+      WHERE e.team_scoring <> 'direct'
+      GROUP BY ms.team_id, ms.event_id, e.team_scoring, e.team_best_count
+      UNION ALL
+      SELECT ts.team_id, ts.points
+      FROM team_scores ts
+      JOIN events e ON e.id = ts.event_id
+      WHERE e.team_scoring = 'direct'
+    ),
+    team_totals AS (
+      SELECT
+        t.id,
+        t.name,
+        t.color,
+        (SELECT COUNT(*) FROM participants p WHERE p.team_id = t.id)::int AS "memberCount",
+        COALESCE(SUM(tep.points), 0)::int AS "totalPoints"
+      FROM teams t
+      LEFT JOIN team_event_points tep ON tep.team_id = t.id
+      GROUP BY t.id
+    )
+    SELECT *, RANK() OVER (ORDER BY "totalPoints" DESC)::int AS rank
+    FROM team_totals
+    ORDER BY rank, name
+  `;
+}
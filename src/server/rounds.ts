@@ -0,0 +1,88 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Spread participants across heats in a snake ("1 2 3 3 2 1 1 2 3 ...") so the strongest
+ * seeds are split up and every heat gets a fair mix
+ * @param seeded Participants, best seed first
+ * @param heatCount Number of heats to fill
+ * @returns The participants in each heat, in lane order
+ */
+export function seedHeats<T>(seeded: T[], heatCount: number) {
+  const heats: T[][] = Array.from({ length: heatCount }, () => []);
+
+  seeded.forEach((entry, index) => {
+    const pass = Math.floor(index / heatCount);
+    const position = index % heatCount;
+    heats[pass % 2 === 0 ? position : heatCount - 1 - position]?.push(entry);
+  });
+
+  return heats;
+}
+
+/**
+ * Participants who went through from a completed round, best first: every heat winner, then
+ * every runner-up, and so on, so they can be seeded into the next round
+ * @param tx Prisma client or transaction client
+ * @param roundId Completed round
+ */
+export async function getAdvancers(
+  tx: Prisma.TransactionClient,
+  roundId: string,
+) {
+  const entries = await tx.heatEntry.findMany({
+    where: { heat: { roundId }, advanced: true },
+    orderBy: [{ place: "asc" }, { heat: { order: "asc" } }],
+    select: { participantId: true },
+  });
+
+  return entries.map((entry) => entry.participantId);
+}
+
+/**
+ * Mark who goes through from each heat of a round, once every result is in
+ * @param tx Transaction client
+ * @param round The round, with the number of places per heat that go through
+ */
+export async function advanceRound(
+  tx: Prisma.TransactionClient,
+  round: { id: string; advanceCount: number | null },
+) {
+  // Ties on the cut-off place all go through
+  await tx.heatEntry.updateMany({
+    where: {
+      heat: { roundId: round.id },
+      place: { lte: round.advanceCount ?? 0 },
+    },
+    data: { advanced: true },
+  });
+
+  await tx.eventRound.update({
+    where: { id: round.id },
+    data: { status: "completed" },
+  });
+}
+
+/**
+ * The event's finishing order from its final, ready for planEventResults
+ * @param tx Prisma client or transaction client
+ * @param roundId The final round
+ * @returns Participant ids grouped by place, winners first, ties sharing a group
+ */
+export async function getFinalFinishingOrder(
+  tx: Prisma.TransactionClient,
+  roundId: string,
+) {
+  const entries = await tx.heatEntry.findMany({
+    where: { heat: { roundId }, place: { not: null } },
+    orderBy: { place: "asc" },
+    select: { participantId: true, place: true },
+  });
+
+  const groups = new Map<number, string[]>();
+  for (const entry of entries) {
+    const place = entry.place ?? 0;
+    groups.set(place, [...(groups.get(place) ?? []), entry.participantId]);
+  }
+
+  return [...groups.values()];
+}
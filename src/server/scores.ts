@@ -0,0 +1,350 @@
+import type { Prisma, Score } from "@prisma/client";
+import {
+  groupTies,
+  parseRankingPolicy,
+  pointsForPlacing,
+  rankTiedGroups,
+  type RankingPolicy,
+} from "~/lib/ranking";
+import {
+  parseScoringScheme,
+  pointsForRank,
+  type ScoringScheme,
+} from "~/lib/scoring";
+
+/**
+ * Where a score change came from, as recorded in the audit log
+ */
+export type ScoreChangeSource =
+  | "admin_entry"
+  | "bulk_results"
+  | "recompute"
+  | "game"
+  | "dispute"
+  | "revert";
+
+/**
+ * Who made a score change and why, recorded alongside it in the audit log
+ */
+export interface ScoreChange {
+  actorParticipantId: string | null; // Null for automatic changes such as game awards
+  source: ScoreChangeSource;
+  reason?: string | null;
+  revertOfId?: string; // Audit entry being reverted
+}
+
+/**
+ * The parts of a Score that changes are made to
+ */
+export interface ScoreValues {
+  rank: number;
+  points: number;
+  method: string;
+}
+
+/**
+ * Set a participant's score for an event, recording the change in the audit log.
+ * Every write to a Score goes through here so the log stays complete.
+ * @param tx Transaction client, so the score and its log entry are written together
+ * @param key The participant and event the score is for
+ * @param values The new score, or null to remove it (only when reverting its creation)
+ * @param change Who is making the change and why
+ * @returns The score as it now stands, or null if it was removed
+ */
+export async function setScore(
+  tx: Prisma.TransactionClient,
+  key: { participantId: string; eventId: string },
+  values: ScoreValues | null,
+  change: ScoreChange,
+) {
+  const where = { participantId_eventId: key };
+  const existing = await tx.score.findUnique({ where });
+
+  if (
+    existing &&
+    values &&
+    existing.rank === values.rank &&
+    existing.points === values.points &&
+    existing.method === values.method
+  ) {
+    return existing; // Nothing to change or log
+  }
+
+  if (!existing && !values) {
+    return null;
+  }
+
+  let score: Score | null = null;
+  if (values) {
+    score = await tx.score.upsert({
+      where,
+      update: values,
+      create: { ...key, ...values },
+    });
+  } else {
+    await tx.score.delete({ where });
+  }
+
+  await tx.scoreAuditEntry.create({
+    data: {
+      ...key,
+      actorParticipantId: change.actorParticipantId,
+      source: change.source,
+      reason: change.reason,
+      revertOfId: change.revertOfId,
+      previousRank: existing?.rank,
+      previousPoints: existing?.points,
+      previousMethod: existing?.method,
+      newRank: values?.rank,
+      newPoints: values?.points,
+      newMethod: values?.method,
+    },
+  });
+
+  return score;
+}
+
+/**
+ * A single score as entered by an admin: a finishing position, or points awarded directly
+ */
+export type ScoreEntry =
+  | { scoreType: "rank"; rank: number }
+  | { scoreType: "points"; points: number };
+
+/**
+ * Enter one participant's score for an event, converting a rank to points with the event's
+ * scoring scheme and re-scoring anyone it now ties with
+ * @param tx Transaction client
+ * @param event The event, with its scoring settings
+ * @param participantId Participant the score is for
+ * @param entry The rank or points entered
+ * @param change Who is entering the score and why
+ * @returns The score as it now stands
+ */
+export async function enterScore(
+  tx: Prisma.TransactionClient,
+  event: { id: string; scoringScheme: Prisma.JsonValue; rankingPolicy: string },
+  participantId: string,
+  entry: ScoreEntry,
+  change: ScoreChange,
+) {
+  const scheme = parseScoringScheme(event.scoringScheme);
+
+  const score = await setScore(
+    tx,
+    { participantId, eventId: event.id },
+    entry.scoreType === "rank"
+      ? {
+          rank: entry.rank,
+          points: pointsForRank(scheme, entry.rank),
+          method: "rank",
+        }
+      : // Use 0 as a placeholder rank for direct points entry
+        { rank: 0, points: entry.points, method: "points" },
+    change,
+  );
+
+  if (!score || entry.scoreType !== "rank") {
+    return score;
+  }
+
+  // A new rank can tie with an existing one, which changes both scores under split points
+  await recomputeEventScores(
+    tx,
+    event.id,
+    scheme,
+    parseRankingPolicy(event.rankingPolicy),
+    { actorParticipantId: change.actorParticipantId, reason: change.reason },
+  );
+  return tx.score.findUniqueOrThrow({ where: { id: score.id } });
+}
+
+/**
+ * Re-apply an event's scoring scheme and ranking policy to its rank-based scores, e.g. after an
+ * admin changes them or a new result ties with an existing one. Directly entered points and
+ * mini-game wins aren't derived from a rank, so they're left alone.
+ * @param tx Transaction client, so the scores change atomically with whatever prompted this
+ * @param eventId Event whose scores are recomputed
+ * @param scheme The event's scoring scheme
+ * @param policy The event's ranking policy
+ * @param change Who prompted the recompute, recorded against each score it changes
+ * @param options.reRank Renumber the ranks under the policy too (keeping the finishing order),
+ * e.g. when switching between standard and dense ranking
+ * @returns The number of scores that changed
+ */
+export async function recomputeEventScores(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  scheme: ScoringScheme,
+  policy: RankingPolicy,
+  change: Omit<ScoreChange, "source">,
+  options: { reRank?: boolean } = {},
+) {
+  const scores = await tx.score.findMany({
+    where: { eventId, method: "rank" },
+    select: { participantId: true, rank: true, points: true },
+  });
+
+  const groups = groupTies(scores, (a, b) => a.rank - b.rank);
+  const placings = options.reRank
+    ? rankTiedGroups(groups, policy)
+    : groups.flatMap((group) =>
+        group.map((entry) => ({
+          entry,
+          rank: entry.rank,
+          firstPlace: entry.rank,
+          tiedWith: group.length,
+        })),
+      );
+
+  let updated = 0;
+
+  for (const placing of placings) {
+    const points = pointsForPlacing(scheme, policy, placing);
+    if (
+      points === placing.entry.points &&
+      placing.rank === placing.entry.rank
+    ) {
+      continue;
+    }
+
+    await setScore(
+      tx,
+      { participantId: placing.entry.participantId, eventId },
+      { rank: placing.rank, points, method: "rank" },
+      { ...change, source: "recompute" },
+    );
+    updated += 1;
+  }
+
+  return updated;
+}
+
+/**
+ * Work out the Score rows a full set of event results would produce, alongside each
+ * participant's current score, without writing anything. A full set of results replaces
+ * the event's scores, so anyone left out of the finishing order loses the score they had.
+ * @param tx Prisma client or transaction client
+ * @param eventId Event the results are for
+ * @param finishingOrder Participant ids grouped by place, winners first
+ * @param scheme The event's scoring scheme
+ * @param policy The event's ranking policy, which decides how ties are ranked and scored
+ */
+export async function planEventResults(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  finishingOrder: string[][],
+  scheme: ScoringScheme,
+  policy: RankingPolicy,
+) {
+  const placings = rankTiedGroups(finishingOrder, policy);
+
+  const existingScores = await tx.score.findMany({
+    where: { eventId },
+    select: { participantId: true, rank: true, points: true },
+  });
+  const existingByParticipant = new Map(
+    existingScores.map((score) => [score.participantId, score]),
+  );
+
+  const finisherIds = new Set(finishingOrder.flat());
+  const removed = existingScores
+    .filter((score) => !finisherIds.has(score.participantId))
+    .map((score) => ({
+      participantId: score.participantId,
+      previousRank: score.rank,
+      previousPoints: score.points,
+      pointsChange: -score.points,
+    }));
+
+  const results = placings.map((placing) => {
+    const participantId = placing.entry;
+    const rank = placing.rank;
+    const existing = existingByParticipant.get(participantId);
+    const points = pointsForPlacing(scheme, policy, placing);
+
+    return {
+      participantId,
+      rank,
+      points,
+      previousRank: existing?.rank ?? null,
+      previousPoints: existing?.points ?? null,
+      pointsChange: points - (existing?.points ?? 0),
+    };
+  });
+
+  return { results, removed };
+}
+
+/**
+ * Write planned event results as rank-based scores, removing the scores of anyone left out
+ * @param tx Transaction client, so a whole set of results lands together or not at all
+ * @param eventId Event the results are for
+ * @param plan Output of planEventResults
+ * @param change Who entered the results and why
+ */
+export async function applyEventResults(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  { results, removed }: Awaited<ReturnType<typeof planEventResults>>,
+  change: Omit<ScoreChange, "source">,
+) {
+  // Logged like any other change, so a removal can be reverted from the audit log
+  for (const score of removed) {
+    await setScore(tx, { participantId: score.participantId, eventId }, null, {
+      ...change,
+      source: "bulk_results",
+    });
+  }
+
+  for (const result of results) {
+    await setScore(
+      tx,
+      { participantId: result.participantId, eventId },
+      { rank: result.rank, points: result.points, method: "rank" },
+      { ...change, source: "bulk_results" },
+    );
+  }
+}
+
+/**
+ * Undo a logged score change by putting the score back how it was before it.
+ * The revert is logged too, so it can itself be reverted.
+ * @param tx Transaction client
+ * @param entryId Audit entry to revert
+ * @param change Who is reverting it and why
+ * @returns The reverted entry and the score as it now stands, or null if the entry doesn't exist
+ */
+export async function revertScoreChange(
+  tx: Prisma.TransactionClient,
+  entryId: string,
+  change: Omit<ScoreChange, "source" | "revertOfId">,
+) {
+  const entry = await tx.scoreAuditEntry.findUnique({
+    where: { id: entryId },
+  });
+
+  if (!entry) {
+    return null;
+  }
+
+  const previousValues =
+    entry.previousRank !== null &&
+    entry.previousPoints !== null &&
+    entry.previousMethod !== null
+      ? {
+          rank: entry.previousRank,
+          points: entry.previousPoints,
+          method: entry.previousMethod,
+        }
+      : null;
+
+  const score = await setScore(
+    tx,
+    { participantId: entry.participantId, eventId: entry.eventId },
+    previousValues,
+    { ...change, source: "revert", revertOfId: entry.id },
+  );
+
+  return { entry, score };
+}